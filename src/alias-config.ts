@@ -0,0 +1,204 @@
+/**
+ * Alias Configuration Files
+ *
+ * `export` writes the patch configuration of aliases to a portable JSON file and
+ * `import` recreates them on another machine against the local droid binary:
+ *
+ *   {
+ *     "version": 1,
+ *     "aliases": [
+ *       { "name": "droid-custom", "patches": { "isCustom": true, "apiBase": null, ... } }
+ *     ]
+ *   }
+ *
+ * Only what is needed to rebuild an alias is kept: no binary or alias paths,
+ * hashes or timestamps.
+ */
+
+import { readFile } from "node:fs/promises";
+import { basename } from "node:path";
+import type { AliasMetadata } from "./metadata.ts";
+import { parsePatchDefinitions, type PatchDefinition } from "./patch-file.ts";
+import { isApiBaseBinaryPatch, MAX_API_BASE_LENGTH, normalizeApiBase } from "./patches.ts";
+
+export const ALIAS_CONFIG_VERSION = 1;
+
+/**
+ * Portable configuration of one alias
+ */
+export interface AliasConfig {
+  name: string;
+  /** droid version the alias was exported from (informational) */
+  droidVersion?: string;
+  patches: AliasMetadata["patches"];
+  /** User patch definitions, embedded so no patch file is needed on import */
+  customPatches?: PatchDefinition[];
+}
+
+export interface AliasConfigFile {
+  version: typeof ALIAS_CONFIG_VERSION;
+  /** droid-patch version that wrote the file */
+  droidPatchVersion?: string;
+  aliases: AliasConfig[];
+}
+
+const BOOLEAN_FLAGS = [
+  "isCustom",
+  "skipLogin",
+  "websearch",
+  "websearchProxy",
+  "reasoningEffort",
+  "noTelemetry",
+  "standalone",
+] as const;
+
+/**
+ * Build an export file from alias metadata, dropping machine-specific fields.
+ * Aliases are sorted by name so exported files diff cleanly.
+ */
+export function exportAliasConfigs(
+  metadata: AliasMetadata[],
+  droidPatchVersion?: string,
+): AliasConfigFile {
+  const sorted = metadata.toSorted((a, b) => a.name.localeCompare(b.name));
+  const aliases = sorted.map((meta): AliasConfig => {
+    const patches = structuredClone(meta.patches);
+    // Old aliases stored the websearch forward target in `proxy`
+    if (patches.proxy && !patches.websearch) {
+      patches.websearch = true;
+      patches.apiBase = patches.proxy;
+    }
+    delete patches.proxy;
+    return {
+      name: meta.name,
+      ...(meta.droidVersion ? { droidVersion: meta.droidVersion } : {}),
+      patches,
+      ...(meta.customPatches?.length ? { customPatches: meta.customPatches } : {}),
+    };
+  });
+  return { version: ALIAS_CONFIG_VERSION, droidPatchVersion, aliases };
+}
+
+/**
+ * Read and validate an export file
+ */
+export async function readAliasConfigFile(path: string): Promise<AliasConfig[]> {
+  const content = await readFile(path, "utf-8");
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${basename(path)}: ${(error as Error).message}`);
+  }
+  return parseAliasConfigFile(data, basename(path));
+}
+
+/**
+ * Validate raw export file data into alias configurations
+ */
+export function parseAliasConfigFile(data: unknown, source: string): AliasConfig[] {
+  if (!isObject(data) || !Array.isArray(data.aliases)) {
+    throw new Error(`${source}: expected an object with an "aliases" list`);
+  }
+  if (data.version !== ALIAS_CONFIG_VERSION) {
+    throw new Error(
+      `${source}: unsupported version ${JSON.stringify(data.version)} (expected ${ALIAS_CONFIG_VERSION})`,
+    );
+  }
+
+  const configs = data.aliases.map((entry, i) =>
+    parseAliasConfig(entry, `${source}: aliases[${i}]`),
+  );
+
+  const seen = new Set<string>();
+  for (const config of configs) {
+    if (seen.has(config.name)) {
+      throw new Error(`${source}: duplicate alias name "${config.name}"`);
+    }
+    seen.add(config.name);
+  }
+  return configs;
+}
+
+function parseAliasConfig(entry: unknown, where: string): AliasConfig {
+  if (!isObject(entry)) {
+    throw new Error(`${where}: expected an object`);
+  }
+  if (typeof entry.name !== "string" || !/^[A-Za-z0-9_.-]+$/.test(entry.name)) {
+    throw new Error(`${where}.name: must be a non-empty string of letters, digits, _ . -`);
+  }
+  const config: AliasConfig = { name: entry.name, patches: parsePatches(entry.patches, where) };
+  where = `${where} (${entry.name})`;
+
+  if (entry.droidVersion !== undefined) {
+    if (typeof entry.droidVersion !== "string") {
+      throw new Error(`${where}.droidVersion: must be a string`);
+    }
+    config.droidVersion = entry.droidVersion;
+  }
+  if (entry.customPatches !== undefined) {
+    config.customPatches = parsePatchDefinitions(entry.customPatches, `${where}.customPatches`);
+  }
+
+  const hasWrapper = config.patches.websearch || config.patches.websearchProxy;
+  if (
+    !hasWrapper &&
+    !config.customPatches?.length &&
+    !BOOLEAN_FLAGS.some((flag) => config.patches[flag]) &&
+    !config.patches.apiBase
+  ) {
+    throw new Error(`${where}: no patches enabled`);
+  }
+  return config;
+}
+
+function parsePatches(value: unknown, where: string): AliasMetadata["patches"] {
+  where = `${where}.patches`;
+  if (!isObject(value)) {
+    throw new Error(`${where}: expected an object`);
+  }
+  const known = new Set<string>([...BOOLEAN_FLAGS, "apiBase"]);
+  for (const key of Object.keys(value)) {
+    if (!known.has(key)) {
+      throw new Error(`${where}: unknown field "${key}"`);
+    }
+  }
+
+  const flag = (key: (typeof BOOLEAN_FLAGS)[number]): boolean => {
+    if (value[key] !== undefined && typeof value[key] !== "boolean") {
+      throw new Error(`${where}.${key}: must be true or false`);
+    }
+    return value[key] === true;
+  };
+  const patches: AliasMetadata["patches"] = {
+    isCustom: flag("isCustom"),
+    skipLogin: flag("skipLogin"),
+    apiBase: null,
+    websearch: flag("websearch"),
+    websearchProxy: flag("websearchProxy"),
+    reasoningEffort: flag("reasoningEffort"),
+    noTelemetry: flag("noTelemetry"),
+    standalone: flag("standalone"),
+  };
+
+  if (value.apiBase !== undefined && value.apiBase !== null) {
+    if (typeof value.apiBase !== "string" || !/^https?:\/\//.test(value.apiBase)) {
+      throw new Error(`${where}.apiBase: must be an http(s) URL or null`);
+    }
+    patches.apiBase = value.apiBase;
+  }
+  if (patches.websearch && patches.websearchProxy) {
+    throw new Error(`${where}: websearch and websearchProxy cannot both be enabled`);
+  }
+  if (
+    isApiBaseBinaryPatch(patches) &&
+    normalizeApiBase(patches.apiBase!).length > MAX_API_BASE_LENGTH
+  ) {
+    throw new Error(`${where}.apiBase: must be ${MAX_API_BASE_LENGTH} characters or less`);
+  }
+  return patches;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
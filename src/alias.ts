@@ -8,12 +8,21 @@ import {
   appendFileSync,
   writeFileSync,
 } from "node:fs";
-import { symlink, readlink, unlink, copyFile, chmod } from "node:fs/promises";
-import { join, basename, dirname, delimiter } from "node:path";
+import { symlink, readlink, unlink, chmod, rm } from "node:fs/promises";
+import { join, basename, dirname, delimiter, resolve } from "node:path";
 import { homedir, platform } from "node:os";
 import { execSync } from "node:child_process";
 import { styleText } from "node:util";
-import { removeAliasMetadata, loadAliasMetadata, formatPatches } from "./metadata.ts";
+import { findBackup, findLatestBackup, getBackupsDir, storeBackup } from "./backup-store.ts";
+import { isStoredBinary, linkBinary, pruneBinaryStore } from "./binary-store.ts";
+import { copyFileAtomic } from "./fs-utils.ts";
+import { listGenerations, removeGenerations } from "./generations.ts";
+import {
+  removeAliasMetadata,
+  listAllMetadata,
+  formatPatches,
+  type AliasMetadata,
+} from "./metadata.ts";
 
 const IS_WINDOWS = platform() === "win32";
 
@@ -201,6 +210,22 @@ function addPathToShellConfig(shellConfigPath: string, verbose = false): boolean
   }
 }
 
+/**
+ * Put a patched binary into bins/: hard-linked when it comes from the binary store
+ * (shared with other aliases), copied otherwise. Returns whether it was linked;
+ * stored binaries were already re-signed on macOS when patched.
+ */
+async function installPatchedBinary(
+  patchedBinaryPath: string,
+  binaryDest: string,
+): Promise<boolean> {
+  if (isStoredBinary(patchedBinaryPath)) {
+    return linkBinary(patchedBinaryPath, binaryDest);
+  }
+  await copyFileAtomic(patchedBinaryPath, binaryDest, 0o755);
+  return false;
+}
+
 export interface CreateAliasResult {
   aliasPath: string;
   binaryPath: string;
@@ -226,11 +251,10 @@ export async function createAlias(
   if (writablePathDir) {
     const targetPath = join(writablePathDir, aliasName);
     const binaryDest = join(BINS_DIR, `${aliasName}-patched`);
-    await copyFile(patchedBinaryPath, binaryDest);
-    await chmod(binaryDest, 0o755);
+    const linked = await installPatchedBinary(patchedBinaryPath, binaryDest);
 
     if (verbose) {
-      console.log(styleText("gray", `    Stored binary: ${binaryDest}`));
+      console.log(styleText("gray", `    ${linked ? "Linked" : "Stored"} binary: ${binaryDest}`));
     }
 
     if (existsSync(targetPath)) {
@@ -242,7 +266,7 @@ export async function createAlias(
 
     await symlink(binaryDest, targetPath);
 
-    if (process.platform === "darwin") {
+    if (process.platform === "darwin" && !linked) {
       try {
         console.log(styleText("gray", "[*] Re-signing binary for macOS..."));
         execSync(`codesign --force --deep --sign - "${binaryDest}"`, {
@@ -284,14 +308,13 @@ export async function createAlias(
   console.log(styleText("yellow", "[*] No writable PATH directory found, using fallback..."));
 
   const binaryDest = join(BINS_DIR, `${aliasName}-patched`);
-  await copyFile(patchedBinaryPath, binaryDest);
-  await chmod(binaryDest, 0o755);
+  const linked = await installPatchedBinary(patchedBinaryPath, binaryDest);
 
   if (verbose) {
-    console.log(styleText("gray", `    Copied binary to: ${binaryDest}`));
+    console.log(styleText("gray", `    ${linked ? "Linked" : "Copied"} binary to: ${binaryDest}`));
   }
 
-  if (process.platform === "darwin") {
+  if (process.platform === "darwin" && !linked) {
     try {
       console.log(styleText("gray", "[*] Re-signing binary for macOS..."));
       execSync(`codesign --force --deep --sign - "${binaryDest}"`, {
@@ -389,21 +412,21 @@ export async function createAlias(
  * Create alias on Windows using .cmd launcher and setx for PATH
  */
 /**
- * Try to copy file, handling Windows file locking
+ * Install a patched binary (see installPatchedBinary), handling Windows file locking
  * If target is locked, use a new filename with timestamp
  */
-async function copyFileWithLockHandling(
+async function installWithLockHandling(
   src: string,
   dest: string,
   verbose = false,
 ): Promise<string> {
   try {
-    await copyFile(src, dest);
+    await installPatchedBinary(src, dest);
     return dest;
   } catch (error) {
     const err = error as NodeJS.ErrnoException;
-    // EBUSY = file is locked/in use (Windows)
-    if (err.code === "EBUSY" && IS_WINDOWS) {
+    // EBUSY/EPERM = file is locked/in use (Windows)
+    if ((err.code === "EBUSY" || err.code === "EPERM") && IS_WINDOWS) {
       // Generate new filename with timestamp
       const timestamp = Date.now();
       const ext = dest.endsWith(".exe") ? ".exe" : "";
@@ -414,7 +437,7 @@ async function copyFileWithLockHandling(
         console.log(styleText("yellow", `    [!] File locked, using new path: ${newDest}`));
       }
 
-      await copyFile(src, newDest);
+      await installPatchedBinary(src, newDest);
       return newDest;
     }
     throw error;
@@ -431,9 +454,9 @@ async function createWindowsAlias(
     mkdirSync(binDir, { recursive: true });
   }
 
-  // Copy binary to bins directory, handling file locking
+  // Link or copy binary to bins directory, handling file locking
   const targetPath = join(BINS_DIR, `${aliasName}-patched.exe`);
-  const binaryDest = await copyFileWithLockHandling(patchedBinaryPath, targetPath, verbose);
+  const binaryDest = await installWithLockHandling(patchedBinaryPath, targetPath, verbose);
 
   if (verbose) {
     console.log(styleText("gray", `    Stored binary: ${binaryDest}`));
@@ -507,328 +530,420 @@ async function createWindowsAlias(
   };
 }
 
-export async function removeAlias(aliasName: string): Promise<void> {
-  console.log(styleText("white", `[*] Removing alias: ${styleText("cyan", aliasName)}`));
-
-  let removed = false;
-
-  // Windows: check for .cmd launcher
-  if (IS_WINDOWS) {
-    const binDir = join(DROID_PATCH_DIR, "bin");
-    const cmdPath = join(binDir, `${aliasName}.cmd`);
-    if (existsSync(cmdPath)) {
-      await unlink(cmdPath);
-      console.log(styleText("green", `    Removed: ${cmdPath}`));
-      removed = true;
-    }
-
-    // Remove Windows binary (.exe)
-    const exePath = join(BINS_DIR, `${aliasName}-patched.exe`);
-    if (existsSync(exePath)) {
-      await unlink(exePath);
-      console.log(styleText("green", `    Removed binary: ${exePath}`));
-      removed = true;
-    }
-
-    // Also check for wrapper .cmd in proxy directory
-    const proxyDir = join(DROID_PATCH_DIR, "proxy");
-    const proxyWrapperCmd = join(proxyDir, `${aliasName}.cmd`);
-    if (existsSync(proxyWrapperCmd)) {
-      await unlink(proxyWrapperCmd);
-      console.log(styleText("green", `    Removed wrapper: ${proxyWrapperCmd}`));
-      removed = true;
-    }
-  }
+/**
+ * Remove an alias's links, binary, wrapper files, generations and metadata.
+ * Returns the files removed (with dryRun: the files that would be removed).
+ */
+/**
+ * The patched binary an alias runs: its link or launcher target when that is in bins/
+ * (on Windows possibly -patched.exe or a timestamped copy made while it was locked),
+ * else bins/<alias>-patched, which websearch wrappers run. Null if there is none.
+ */
+export async function findAliasBinary(aliasName: string): Promise<string | null> {
+  const alias = (await loadAliasRegistry()).aliases.find((a) => a.name === aliasName);
+  for (const link of alias?.links ?? []) {
+    const target = resolve(link.location, link.target);
+    if (dirname(target) === BINS_DIR && existsSync(target)) return target;
+  }
+  const wrapped = join(BINS_DIR, `${aliasName}-patched`);
+  return existsSync(wrapped) ? wrapped : null;
+}
 
-  // Check common PATH directories for symlinks (Unix)
-  if (!IS_WINDOWS) {
-    for (const pathDir of COMMON_PATH_DIRS) {
-      const pathSymlink = join(pathDir, aliasName);
-      if (existsSync(pathSymlink)) {
-        try {
-          const stats = lstatSync(pathSymlink);
-          if (stats.isSymbolicLink()) {
-            const target = await readlink(pathSymlink);
-            // Support regular aliases, old websearch wrappers, and new proxy wrappers
-            if (
-              target.includes(".droid-patch/bins") ||
-              target.includes(".droid-patch/websearch") ||
-              target.includes(".droid-patch/proxy") ||
-              target.includes(".droid-patch/statusline")
-            ) {
-              await unlink(pathSymlink);
-              console.log(styleText("green", `    Removed: ${pathSymlink}`));
-              removed = true;
-            }
-          }
-        } catch {
-          // Ignore
-        }
-      }
-    }
-  }
+export async function removeAlias(
+  aliasName: string,
+  options: { dryRun?: boolean } = {},
+): Promise<string[]> {
+  const { dryRun = false } = options;
+  const verb = dryRun ? "Would remove" : "Removed";
+  console.log(
+    styleText(
+      "white",
+      `[*] ${dryRun ? "Would remove" : "Removing"} alias: ${styleText("cyan", aliasName)}`,
+    ),
+  );
 
-  // Check aliases directory
-  const symlinkPath = join(ALIASES_DIR, aliasName);
-  if (existsSync(symlinkPath)) {
-    await unlink(symlinkPath);
-    console.log(styleText("green", `    Removed: ${symlinkPath}`));
+  let removed = false;
+  const removedFiles: string[] = [];
+  const removeFile = async (path: string, label?: string) => {
+    if (!dryRun) await unlink(path);
+    console.log(styleText("green", `    ${label ? `${verb} ${label}` : verb}: ${path}`));
+    removedFiles.push(path);
     removed = true;
-  }
+  };
 
-  // Remove binary if exists (Unix style without .exe)
-  const binaryPath = join(BINS_DIR, `${aliasName}-patched`);
-  if (existsSync(binaryPath)) {
-    await unlink(binaryPath);
-    console.log(styleText("green", `    Removed binary: ${binaryPath}`));
-    removed = true;
+  const alias = (await loadAliasRegistry()).aliases.find((a) => a.name === aliasName);
+  const binary = await findAliasBinary(aliasName);
+  for (const link of alias?.links ?? []) {
+    try {
+      await removeFile(link.path);
+    } catch {
+      // Ignore
+    }
   }
 
-  // Remove new proxy wrapper and related files if exist
   const proxyDir = join(DROID_PATCH_DIR, "proxy");
-  const proxyWrapperPath = join(proxyDir, aliasName);
-  const proxyScriptPath = join(proxyDir, `${aliasName}-proxy.js`);
-
-  if (existsSync(proxyWrapperPath)) {
-    await unlink(proxyWrapperPath);
-    console.log(styleText("green", `    Removed wrapper: ${proxyWrapperPath}`));
-    removed = true;
-  }
-
-  if (existsSync(proxyScriptPath)) {
-    await unlink(proxyScriptPath);
-    console.log(styleText("green", `    Removed proxy script: ${proxyScriptPath}`));
-    removed = true;
-  }
-
-  // Remove old websearch wrapper and related files if exist (backward compatibility)
+  // Old websearch wrappers and their scripts (backward compatibility)
   const websearchDir = join(DROID_PATCH_DIR, "websearch");
-  const wrapperPath = join(websearchDir, aliasName);
-  const oldProxyPath = join(websearchDir, `${aliasName}-proxy.js`);
-  const preloadPath = join(websearchDir, `${aliasName}-preload.js`);
-
-  if (existsSync(wrapperPath)) {
-    await unlink(wrapperPath);
-    console.log(styleText("green", `    Removed legacy wrapper: ${wrapperPath}`));
-    removed = true;
-  }
-
-  if (existsSync(oldProxyPath)) {
-    await unlink(oldProxyPath);
-    console.log(styleText("green", `    Removed legacy proxy: ${oldProxyPath}`));
-    removed = true;
-  }
-
-  if (existsSync(preloadPath)) {
-    await unlink(preloadPath);
-    console.log(styleText("green", `    Removed legacy preload: ${preloadPath}`));
-    removed = true;
-  }
-
-  // Remove statusline wrapper and monitor script if exist
   const statuslineDir = join(DROID_PATCH_DIR, "statusline");
-  const statuslineWrapperPath = join(statuslineDir, aliasName);
-  const statuslineMonitorPath = join(statuslineDir, `${aliasName}-statusline.js`);
-  const statuslineSessionsPath = join(statuslineDir, `${aliasName}-sessions.js`);
-
-  if (existsSync(statuslineWrapperPath)) {
-    await unlink(statuslineWrapperPath);
-    console.log(styleText("green", `    Removed statusline wrapper: ${statuslineWrapperPath}`));
-    removed = true;
+  const files: Array<[path: string, label: string]> = [
+    [join(BINS_DIR, `${aliasName}-patched`), "binary"],
+    [join(proxyDir, aliasName), "wrapper"],
+    [join(proxyDir, `${aliasName}.cmd`), "wrapper"],
+    [join(proxyDir, `${aliasName}-proxy.js`), "proxy script"],
+    [join(websearchDir, aliasName), "legacy wrapper"],
+    [join(websearchDir, `${aliasName}-proxy.js`), "legacy proxy"],
+    [join(websearchDir, `${aliasName}-preload.js`), "legacy preload"],
+    [join(statuslineDir, aliasName), "statusline wrapper"],
+    [join(statuslineDir, `${aliasName}-statusline.js`), "statusline monitor"],
+    [join(statuslineDir, `${aliasName}-sessions.js`), "sessions browser"],
+  ];
+  if (IS_WINDOWS) {
+    files.unshift([join(BINS_DIR, `${aliasName}-patched.exe`), "binary"]);
   }
-
-  if (existsSync(statuslineMonitorPath)) {
-    await unlink(statuslineMonitorPath);
-    console.log(styleText("green", `    Removed statusline monitor: ${statuslineMonitorPath}`));
-    removed = true;
+  // e.g. a timestamped copy written while the binary was locked
+  if (binary && !files.some(([path]) => path === binary)) {
+    files.unshift([binary, "binary"]);
+  }
+  for (const [path, label] of files) {
+    if (existsSync(path)) {
+      await removeFile(path, label);
+    }
   }
 
-  if (existsSync(statuslineSessionsPath)) {
-    await unlink(statuslineSessionsPath);
-    console.log(styleText("green", `    Removed sessions browser: ${statuslineSessionsPath}`));
+  if (dryRun ? (await listGenerations(aliasName)).length > 0 : await removeGenerations(aliasName)) {
+    console.log(styleText("green", `    ${verb} saved generations`));
     removed = true;
   }
 
   // Remove metadata
-  const metaRemoved = await removeAliasMetadata(aliasName);
+  const metaRemoved = dryRun ? !!alias?.metadata : await removeAliasMetadata(aliasName);
   if (metaRemoved) {
-    console.log(styleText("green", `    Removed metadata`));
+    console.log(styleText("green", `    ${verb} metadata`));
     removed = true;
   }
 
+  // The binary may have been shared with other aliases: only drop it once nothing links to it
+  if (removed && !dryRun) {
+    for (const dir of await pruneBinaryStore()) {
+      console.log(styleText("green", `    Removed unused stored binary: ${dir}`));
+    }
+  }
+
   if (!removed) {
     console.log(styleText("yellow", `    Alias "${aliasName}" not found`));
-  } else {
+  } else if (!dryRun) {
     console.log(styleText("green", `[*] Alias "${aliasName}" removed successfully`));
   }
+  return removedFiles;
 }
 
-export async function listAliases(): Promise<void> {
-  ensureDirectories();
+export type AliasStatus = "healthy" | "dangling" | "orphaned-metadata" | "untracked";
+
+export interface AliasLink {
+  /** Symlink or launcher path */
+  path: string;
+  /** Symlink or launcher target */
+  target: string;
+  /** Directory holding the link */
+  location: string;
+  /** Whether the link is usable without sourcing a shell config */
+  immediate: boolean;
+}
 
-  console.log(styleText("cyan", "═".repeat(60)));
-  console.log(styleText(["cyan", "bold"], "  Droid-Patch Aliases"));
-  console.log(styleText("cyan", "═".repeat(60)));
-  console.log();
+export interface AliasInfo {
+  name: string;
+  /**
+   * healthy: linked, with metadata, and every link target exists
+   * dangling: a link points to a file that no longer exists
+   * orphaned-metadata: metadata is left but no link is
+   * untracked: linked but without metadata (created by older versions)
+   */
+  status: AliasStatus;
+  /** Target of the first link, null for orphaned metadata */
+  target: string | null;
+  /** Directory holding the first link, null for orphaned metadata */
+  location: string | null;
+  /** Whether any link is usable without sourcing a shell config */
+  immediate: boolean;
+  /** All links for this alias (PATH directories first, then the aliases directory) */
+  links: AliasLink[];
+  /** Stored metadata, or null for untracked aliases */
+  metadata: AliasMetadata | null;
+}
 
-  interface AliasInfo {
-    name: string;
-    target: string;
-    location: string;
-    immediate: boolean;
-  }
+export interface AliasRegistry {
+  aliases: AliasInfo[];
+  aliasesDir: string;
+  pathConfigured: boolean;
+}
 
-  const aliases: AliasInfo[] = [];
+/**
+ * Whether a symlink target points into one of the directories droid-patch creates aliases for
+ */
+function isAliasTarget(target: string): boolean {
+  return /(^|[\\/])\.droid-patch[\\/](bins|websearch|proxy|statusline)[\\/]/.test(target);
+}
+
+/**
+ * Find every alias link on disk, grouped by alias name
+ */
+async function scanAliasLinks(): Promise<Map<string, AliasLink[]>> {
+  const links = new Map<string, AliasLink[]>();
+  const add = (name: string, link: AliasLink) => {
+    links.set(name, [...(links.get(name) ?? []), link]);
+  };
 
-  // Windows: check for .cmd launchers in bin directory
+  // Windows: .cmd launchers in the bin directory, wrapper .cmd files in the proxy directory
   if (IS_WINDOWS) {
     const binDir = join(DROID_PATCH_DIR, "bin");
-    if (existsSync(binDir)) {
-      try {
-        const files = readdirSync(binDir);
-        for (const file of files) {
-          if (file.endsWith(".cmd")) {
-            const aliasName = file.replace(/\.cmd$/, "");
-            const fullPath = join(binDir, file);
-            // Read .cmd to find target
-            try {
-              const content = readFileSync(fullPath, "utf-8");
-              const match = content.match(/"([^"]+)"/);
-              const target = match ? match[1] : fullPath;
-              aliases.push({
-                name: aliasName,
-                target,
-                location: binDir,
-                immediate: checkPathInclusion(),
-              });
-            } catch {
-              aliases.push({
-                name: aliasName,
-                target: fullPath,
-                location: binDir,
-                immediate: false,
-              });
-            }
-          }
-        }
-      } catch {
-        // Directory can't be read
-      }
-    }
-
-    // Also check proxy directory for wrapper .cmd files
     const proxyDir = join(DROID_PATCH_DIR, "proxy");
-    if (existsSync(proxyDir)) {
+    for (const dir of [binDir, proxyDir]) {
+      if (!existsSync(dir)) continue;
       try {
-        const files = readdirSync(proxyDir);
-        for (const file of files) {
-          if (file.endsWith(".cmd")) {
-            const aliasName = file.replace(/\.cmd$/, "");
-            if (!aliases.find((a) => a.name === aliasName)) {
-              const fullPath = join(proxyDir, file);
-              aliases.push({
-                name: aliasName,
-                target: fullPath,
-                location: proxyDir,
-                immediate: false,
-              });
+        for (const file of readdirSync(dir)) {
+          if (!file.endsWith(".cmd")) continue;
+          const aliasName = file.replace(/\.cmd$/, "");
+          const fullPath = join(dir, file);
+          if (dir === proxyDir) {
+            if (!links.has(aliasName)) {
+              add(aliasName, { path: fullPath, target: fullPath, location: dir, immediate: false });
             }
+            continue;
           }
-        }
-      } catch {
-        // Ignore
-      }
-    }
-  } else {
-    // Unix: check for symlinks
-    for (const pathDir of COMMON_PATH_DIRS) {
-      if (!existsSync(pathDir)) continue;
-
-      try {
-        const files = readdirSync(pathDir);
-        for (const file of files) {
-          const fullPath = join(pathDir, file);
+          // Read .cmd to find target
           try {
-            const stats = lstatSync(fullPath);
-            if (stats.isSymbolicLink()) {
-              const target = await readlink(fullPath);
-              // Support regular aliases, old websearch wrappers, and new proxy wrappers
-              if (
-                target.includes(".droid-patch/bins") ||
-                target.includes(".droid-patch/websearch") ||
-                target.includes(".droid-patch/proxy") ||
-                target.includes(".droid-patch/statusline")
-              ) {
-                aliases.push({
-                  name: file,
-                  target,
-                  location: pathDir,
-                  immediate: true,
-                });
-              }
-            }
+            const match = readFileSync(fullPath, "utf-8").match(/"([^"]+)"/);
+            const target = match ? match[1] : fullPath;
+            add(aliasName, {
+              path: fullPath,
+              target,
+              location: dir,
+              immediate: checkPathInclusion(),
+            });
           } catch {
-            // Ignore
+            add(aliasName, { path: fullPath, target: fullPath, location: dir, immediate: false });
           }
         }
       } catch {
         // Directory can't be read
       }
     }
+    return links;
+  }
 
+  // Unix: symlinks into ~/.droid-patch from common PATH directories, then any symlink in ALIASES_DIR
+  const dirs = [
+    ...COMMON_PATH_DIRS.map((dir) => ({ dir, immediate: true, any: false })),
+    { dir: ALIASES_DIR, immediate: false, any: true },
+  ];
+  for (const { dir, immediate, any } of dirs) {
+    if (!existsSync(dir)) continue;
     try {
-      const files = readdirSync(ALIASES_DIR);
-
-      for (const file of files) {
-        const fullPath = join(ALIASES_DIR, file);
+      for (const file of readdirSync(dir)) {
+        const fullPath = join(dir, file);
         try {
-          const stats = lstatSync(fullPath);
-          if (stats.isSymbolicLink()) {
-            const target = await readlink(fullPath);
-            if (!aliases.find((a) => a.name === file)) {
-              aliases.push({
-                name: file,
-                target,
-                location: ALIASES_DIR,
-                immediate: false,
-              });
-            }
+          if (!lstatSync(fullPath).isSymbolicLink()) continue;
+          const target = await readlink(fullPath);
+          if (any || isAliasTarget(target)) {
+            add(file, { path: fullPath, target, location: dir, immediate });
           }
         } catch {
           // Ignore
         }
       }
     } catch {
-      // Directory doesn't exist or can't be read
+      // Directory can't be read
     }
   }
+  return links;
+}
+
+/**
+ * Find all droid-patch aliases, join them with their metadata and classify them
+ */
+export async function loadAliasRegistry(): Promise<AliasRegistry> {
+  ensureDirectories();
+
+  const links = await scanAliasLinks();
+  const metadata = new Map((await listAllMetadata()).map((meta) => [meta.name, meta]));
+
+  const aliases: AliasInfo[] = [];
+  for (const name of new Set([...links.keys(), ...metadata.keys()])) {
+    const aliasLinks = links.get(name) ?? [];
+    const meta = metadata.get(name) ?? null;
+
+    let status: AliasStatus;
+    if (aliasLinks.length === 0) {
+      status = "orphaned-metadata";
+    } else if (aliasLinks.some((link) => !existsSync(resolve(link.location, link.target)))) {
+      status = "dangling";
+    } else {
+      status = meta ? "healthy" : "untracked";
+    }
+
+    aliases.push({
+      name,
+      status,
+      target: aliasLinks[0]?.target ?? null,
+      location: aliasLinks[0]?.location ?? null,
+      immediate: aliasLinks.some((link) => link.immediate),
+      links: aliasLinks,
+      metadata: meta,
+    });
+  }
+
+  return {
+    aliases,
+    aliasesDir: ALIASES_DIR,
+    pathConfigured: checkPathInclusion(),
+  };
+}
+
+export type AliasSortKey = "name" | "created" | "updated";
+
+export interface ListAliasesOptions {
+  /** Only show aliases with metadata matching these criteria */
+  filter?: ListFilterOptions;
+  /** name: alphabetical; created/updated: newest first, aliases without metadata last */
+  sort?: AliasSortKey;
+  /** One table row per alias */
+  compact?: boolean;
+  /** Installed droid version, used to mark stale aliases */
+  installedDroidVersion?: string;
+}
+
+/**
+ * The alias registry, filtered and sorted for `list`
+ */
+export async function queryAliases(
+  options: Pick<ListAliasesOptions, "filter" | "sort"> = {},
+): Promise<AliasRegistry> {
+  const registry = await loadAliasRegistry();
+  const { filter = {}, sort } = options;
+
+  let aliases = registry.aliases;
+  if (hasFilter(filter)) {
+    aliases = aliases.filter((a) => a.metadata && matchesFilter(a.metadata, filter));
+  }
+  if (sort === "name") {
+    aliases = aliases.toSorted((a, b) => a.name.localeCompare(b.name));
+  } else if (sort) {
+    const field = sort === "created" ? "createdAt" : "updatedAt";
+    const time = (alias: AliasInfo) => alias.metadata?.[field] ?? "";
+    aliases = aliases.toSorted((a, b) => time(b).localeCompare(time(a)));
+  }
+  return { ...registry, aliases };
+}
+
+function isStale(alias: AliasInfo, installedDroidVersion?: string): boolean {
+  return !!installedDroidVersion && alias.metadata?.droidVersion !== installedDroidVersion;
+}
+
+/**
+ * One row per alias: name, state, droid version, droid-patch version, last update, flags
+ */
+function printAliasTable(aliases: AliasInfo[], installedDroidVersion?: string): void {
+  const rows = aliases.map((alias) => {
+    const meta = alias.metadata;
+    return {
+      alias,
+      cells: [
+        alias.name,
+        alias.status,
+        (meta?.droidVersion ?? "-") + (isStale(alias, installedDroidVersion) ? "*" : ""),
+        meta?.droidPatchVersion ?? "-",
+        meta?.updatedAt?.slice(0, 10) ?? "-",
+        meta ? formatPatches(meta.patches, meta.customPatches) : "-",
+      ],
+    };
+  });
+  const header = ["NAME", "STATE", "DROID", "PATCH", "UPDATED", "FLAGS"];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r.cells[i].length)));
+  // The last column is not padded so lines carry no trailing spaces
+  const pad = (cells: string[]) =>
+    cells.map((c, i) => (i === cells.length - 1 ? c : c.padEnd(widths[i])));
+
+  console.log(styleText("gray", `  ${pad(header).join("  ")}`));
+  for (const { alias, cells } of rows) {
+    const colors: Array<Parameters<typeof styleText>[0]> = [
+      ["cyan", "bold"],
+      alias.status === "healthy" ? "green" : alias.status === "dangling" ? "red" : "yellow",
+      isStale(alias, installedDroidVersion) ? "yellow" : "white",
+      "gray",
+      "gray",
+      "gray",
+    ];
+    console.log(
+      `  ${pad(cells)
+        .map((c, i) => styleText(colors[i], c))
+        .join("  ")}`,
+    );
+  }
+}
+
+export async function listAliases(options: ListAliasesOptions = {}): Promise<void> {
+  const { installedDroidVersion, compact } = options;
+  const { aliases, aliasesDir, pathConfigured } = await queryAliases(options);
+  const filtered = hasFilter(options.filter ?? {});
+
+  console.log(styleText("cyan", "═".repeat(60)));
+  console.log(styleText(["cyan", "bold"], "  Droid-Patch Aliases"));
+  console.log(styleText("cyan", "═".repeat(60)));
+  console.log();
 
   if (aliases.length === 0) {
-    console.log(styleText("gray", "  No aliases configured."));
-    console.log();
-    console.log(styleText("gray", "  Create one with: npx droid-patch --is-custom <alias-name>"));
+    if (filtered) {
+      console.log(styleText("yellow", "  No aliases match the filter criteria."));
+    } else {
+      console.log(styleText("gray", "  No aliases configured."));
+      console.log();
+      console.log(styleText("gray", "  Create one with: npx droid-patch --is-custom <alias-name>"));
+    }
+  } else if (compact) {
+    printAliasTable(aliases, installedDroidVersion);
+    if (aliases.some((a) => isStale(a, installedDroidVersion))) {
+      console.log();
+      console.log(
+        styleText(
+          "yellow",
+          `  * patched from a droid other than the installed ${installedDroidVersion}`,
+        ),
+      );
+    }
   } else {
     console.log(styleText("white", `  Found ${aliases.length} alias(es):`));
     console.log();
     for (const alias of aliases) {
-      const status = alias.immediate
-        ? styleText("green", "✓ immediate")
-        : styleText("yellow", "requires source");
+      let status: string;
+      if (alias.status === "dangling") {
+        status = styleText("red", "dangling");
+      } else if (alias.status === "orphaned-metadata") {
+        status = styleText("yellow", "metadata only");
+      } else {
+        status = alias.immediate
+          ? styleText("green", "✓ immediate")
+          : styleText("yellow", "requires source");
+      }
       console.log(styleText("green", `  • ${styleText(["cyan", "bold"], alias.name)} [${status}]`));
-      console.log(styleText("gray", `    → ${alias.target}`));
+      if (alias.target) {
+        console.log(styleText("gray", `    → ${alias.target}`));
+      }
 
-      // Load and display metadata
-      const meta = await loadAliasMetadata(alias.name);
+      // Display metadata
+      const meta = alias.metadata;
       if (meta) {
         // Version info
         const patchVer = meta.droidPatchVersion
           ? `droid-patch@${meta.droidPatchVersion}`
           : "unknown";
         const droidVer = meta.droidVersion ? `droid@${meta.droidVersion}` : "unknown";
-        console.log(styleText("gray", `    Versions: ${patchVer}, ${droidVer}`));
+        const stale = isStale(alias, installedDroidVersion)
+          ? styleText("yellow", ` (installed: droid@${installedDroidVersion})`)
+          : "";
+        console.log(styleText("gray", `    Versions: ${patchVer}, ${droidVer}`) + stale);
 
         // Flags/patches
-        const flags = formatPatches(meta.patches);
+        const flags = formatPatches(meta.patches, meta.customPatches);
         console.log(styleText("gray", `    Flags: ${flags}`));
 
         // Created time
@@ -844,11 +959,11 @@ export async function listAliases(): Promise<void> {
   }
 
   console.log();
-  console.log(styleText("gray", `  Aliases directory: ${ALIASES_DIR}`));
+  console.log(styleText("gray", `  Aliases directory: ${aliasesDir}`));
   console.log(
     styleText(
       "gray",
-      `  PATH configured: ${checkPathInclusion() ? styleText("green", "Yes") : styleText("yellow", "No")}`,
+      `  PATH configured: ${pathConfigured ? styleText("green", "Yes") : styleText("yellow", "No")}`,
     ),
   );
   console.log();
@@ -856,13 +971,20 @@ export async function listAliases(): Promise<void> {
 
 export interface ReplaceOriginalResult {
   originalPath: string;
-  backupPath: string;
+  /** Backup of the replaced binary in the backup store (unset with backup: false) */
+  backupPath?: string;
 }
 
+/**
+ * Overwrite the original droid binary with a patched one.
+ * The original is backed up into the backup store first, unless the caller
+ * already did so (options.backup: false).
+ */
 export async function replaceOriginal(
   patchedBinaryPath: string,
   originalPath: string,
   verbose = false,
+  options: { backup?: boolean } = {},
 ): Promise<ReplaceOriginalResult> {
   ensureDirectories();
 
@@ -870,19 +992,18 @@ export async function replaceOriginal(
     styleText("white", `[*] Replacing original binary: ${styleText("cyan", originalPath)}`),
   );
 
-  const latestBackupPath = join(BINS_DIR, "droid-original-latest");
-
-  if (!existsSync(latestBackupPath)) {
-    await copyFile(originalPath, latestBackupPath);
-    console.log(styleText("green", `[*] Created backup: ${latestBackupPath}`));
-  } else {
-    if (verbose) {
-      console.log(styleText("gray", `    Backup already exists: ${latestBackupPath}`));
+  let backupPath: string | undefined;
+  if (options.backup !== false) {
+    const { entry, existed } = await storeBackup(originalPath);
+    backupPath = entry.path;
+    if (!existed) {
+      console.log(styleText("green", `[*] Created backup: ${backupPath}`));
+    } else if (verbose) {
+      console.log(styleText("gray", `    Backup already exists: ${backupPath}`));
     }
   }
 
-  await copyFile(patchedBinaryPath, originalPath);
-  await chmod(originalPath, 0o755);
+  await copyFileAtomic(patchedBinaryPath, originalPath, 0o755);
   console.log(styleText("green", `[*] Replaced: ${originalPath}`));
 
   if (process.platform === "darwin") {
@@ -917,7 +1038,7 @@ export async function replaceOriginal(
 
   return {
     originalPath,
-    backupPath: latestBackupPath,
+    backupPath,
   };
 }
 
@@ -1139,52 +1260,47 @@ async function createWindowsWrapperAlias(
   };
 }
 
-export async function restoreOriginal(originalPath: string): Promise<void> {
+/**
+ * Restore the original droid binary from a backup.
+ * Uses the newest backup taken from originalPath unless a droid version or
+ * backup hash is given. Returns false when no backup was found.
+ */
+export async function restoreOriginal(originalPath: string, ref?: string): Promise<boolean> {
   ensureDirectories();
 
-  const latestBackupPath = join(BINS_DIR, "droid-original-latest");
-
   console.log(styleText("cyan", "═".repeat(60)));
   console.log(styleText(["cyan", "bold"], "  Restore Original Droid"));
   console.log(styleText("cyan", "═".repeat(60)));
   console.log();
 
-  if (!existsSync(latestBackupPath)) {
-    const localBackup = `${originalPath}.backup`;
-    if (existsSync(localBackup)) {
-      console.log(styleText("white", `[*] Found local backup: ${localBackup}`));
-      console.log(styleText("white", `[*] Restoring to: ${originalPath}`));
-
-      await copyFile(localBackup, originalPath);
-      await chmod(originalPath, 0o755);
-
-      if (process.platform === "darwin") {
-        try {
-          execSync(`codesign --force --deep --sign - "${originalPath}"`, {
-            stdio: "pipe",
-          });
-          execSync(`xattr -cr "${originalPath}"`, { stdio: "pipe" });
-        } catch {
-          // Ignore
-        }
-      }
-
-      console.log();
-      console.log(styleText("green", "═".repeat(60)));
-      console.log(styleText(["green", "bold"], "  RESTORE COMPLETE"));
-      console.log(styleText("green", "═".repeat(60)));
+  let latestBackupPath: string | undefined;
+  if (ref) {
+    latestBackupPath = (await findBackup(ref))?.path;
+    if (!latestBackupPath) {
+      console.log(styleText("red", `[!] No backup found for ${ref}.`));
+      console.log(
+        styleText("gray", "    Run 'npx droid-patch backups list' to see available backups"),
+      );
+      return false;
+    }
+  } else {
+    // Backups made by older droid-patch versions are still honoured
+    const candidates = [
+      (await findLatestBackup(originalPath))?.path,
+      join(BINS_DIR, "droid-original-latest"),
+      `${originalPath}.backup`,
+    ];
+    latestBackupPath = candidates.find((path) => path && existsSync(path));
+    if (!latestBackupPath) {
+      console.log(styleText("red", "[!] No backup found."));
+      console.log(styleText("gray", `    Checked: ${getBackupsDir()}`));
+      console.log(styleText("gray", `    Checked: ${candidates[1]}`));
+      console.log(styleText("gray", `    Checked: ${candidates[2]}`));
       console.log();
-      console.log(styleText("green", "Original droid binary has been restored from local backup."));
-      return;
+      console.log(styleText("gray", "If you have a manual backup, restore it with:"));
+      console.log(styleText("cyan", `  cp /path/to/backup ${originalPath}`));
+      return false;
     }
-
-    console.log(styleText("red", "[!] No backup found."));
-    console.log(styleText("gray", `    Checked: ${latestBackupPath}`));
-    console.log(styleText("gray", `    Checked: ${localBackup}`));
-    console.log();
-    console.log(styleText("gray", "If you have a manual backup, restore it with:"));
-    console.log(styleText("cyan", `  cp /path/to/backup ${originalPath}`));
-    return;
   }
 
   console.log(styleText("white", `[*] Restoring from: ${latestBackupPath}`));
@@ -1195,8 +1311,7 @@ export async function restoreOriginal(originalPath: string): Promise<void> {
     mkdirSync(targetDir, { recursive: true });
   }
 
-  await copyFile(latestBackupPath, originalPath);
-  await chmod(originalPath, 0o755);
+  await copyFileAtomic(latestBackupPath, originalPath, 0o755);
 
   if (process.platform === "darwin") {
     try {
@@ -1216,38 +1331,128 @@ export async function restoreOriginal(originalPath: string): Promise<void> {
   console.log();
   console.log(styleText("green", "Original droid binary has been restored."));
   console.log(styleText("green", "All terminals will now use the original version."));
+  return true;
 }
 
 /**
- * Filter options for removing aliases
+ * Flags that `list` and `remove` can filter by
  * Uses the same names as CLI options for consistency
  */
-export type FilterFlag =
-  | "is-custom"
-  | "skip-login"
-  | "websearch"
-  | "api-base"
-  | "reasoning-effort"
-  | "disable-telemetry"
-  | "standalone";
+export const FILTER_FLAGS = [
+  "is-custom",
+  "skip-login",
+  "websearch",
+  "websearch-proxy",
+  "api-base",
+  "reasoning-effort",
+  "disable-telemetry",
+  "standalone",
+] as const;
+
+export type FilterFlag = (typeof FILTER_FLAGS)[number];
+
+/** A flag that must be enabled, or with a leading "!" disabled */
+export type FlagCondition = FilterFlag | `!${FilterFlag}`;
 
 export interface RemoveFilterOptions {
-  /** Remove aliases created by this droid-patch version */
+  /** Aliases created by this droid-patch version */
   patchVersion?: string;
-  /** Remove aliases for this droid version */
+  /** Aliases for this droid version */
   droidVersion?: string;
-  /** Remove aliases that have these flags enabled (all must match) */
-  flags?: FilterFlag[];
+  /** Flag conditions, combined according to flagMode */
+  flags?: FlagCondition[];
+  /** all: every flag condition must hold (default); any: at least one */
+  flagMode?: "all" | "any";
+}
+
+export interface ListFilterOptions extends RemoveFilterOptions {
+  /** Aliases patched from a droid version other than this one (the installed droid) */
+  staleAgainst?: string;
+}
+
+/**
+ * Whether a patch flag is enabled in an alias's metadata
+ */
+function hasFlag(patches: AliasMetadata["patches"], flag: FilterFlag): boolean {
+  switch (flag) {
+    case "is-custom":
+      return patches.isCustom;
+    case "skip-login":
+      return patches.skipLogin;
+    case "websearch":
+      // Old aliases recorded external websearch in the proxy field
+      return patches.websearch || !!patches.proxy;
+    case "websearch-proxy":
+      return !!patches.websearchProxy;
+    case "api-base":
+      return !!patches.apiBase;
+    case "reasoning-effort":
+      return patches.reasoningEffort;
+    case "disable-telemetry":
+      return !!patches.noTelemetry;
+    case "standalone":
+      return !!patches.standalone;
+  }
+}
+
+function hasFilter(filter: ListFilterOptions): boolean {
+  return !!(
+    filter.patchVersion ||
+    filter.droidVersion ||
+    filter.flags?.length ||
+    filter.staleAgainst
+  );
+}
+
+/**
+ * Whether an alias's metadata matches every filter criterion
+ */
+function matchesFilter(meta: AliasMetadata, filter: ListFilterOptions): boolean {
+  // Check droid-patch version
+  if (filter.patchVersion && meta.droidPatchVersion !== filter.patchVersion) {
+    return false;
+  }
+
+  // Check droid version
+  if (filter.droidVersion && meta.droidVersion !== filter.droidVersion) {
+    return false;
+  }
+
+  // Aliases with an unknown droid version count as stale
+  if (filter.staleAgainst && meta.droidVersion === filter.staleAgainst) {
+    return false;
+  }
+
+  // Check flags
+  const conditions = filter.flags ?? [];
+  if (conditions.length > 0) {
+    const results = conditions.map((condition) =>
+      condition.startsWith("!")
+        ? !hasFlag(meta.patches, condition.slice(1) as FilterFlag)
+        : hasFlag(meta.patches, condition as FilterFlag),
+    );
+    const matched = filter.flagMode === "any" ? results.some(Boolean) : results.every(Boolean);
+    if (!matched) return false;
+  }
+  return true;
 }
 
 /**
  * Remove aliases matching filter criteria
  */
-export async function removeAliasesByFilter(filter: RemoveFilterOptions): Promise<void> {
+export async function removeAliasesByFilter(
+  filter: RemoveFilterOptions,
+  options: { dryRun?: boolean } = {},
+): Promise<string[]> {
+  const { dryRun = false } = options;
   console.log(styleText("cyan", "═".repeat(60)));
   console.log(styleText(["cyan", "bold"], "  Remove Aliases by Filter"));
   console.log(styleText("cyan", "═".repeat(60)));
   console.log();
+  if (dryRun) {
+    console.log(styleText("blue", "  (DRY RUN - nothing will be removed)"));
+    console.log();
+  }
 
   // Show filter criteria
   if (filter.patchVersion) {
@@ -1257,126 +1462,25 @@ export async function removeAliasesByFilter(filter: RemoveFilterOptions): Promis
     console.log(styleText("white", `  Filter: droid version = ${filter.droidVersion}`));
   }
   if (filter.flags && filter.flags.length > 0) {
-    console.log(styleText("white", `  Filter: flags = ${filter.flags.join(", ")}`));
+    const joiner = filter.flagMode === "any" ? " OR " : " AND ";
+    console.log(styleText("white", `  Filter: flags = ${filter.flags.join(joiner)}`));
   }
   console.log();
 
-  // Collect all alias names
-  const aliasNames = new Set<string>();
-
-  // Check common PATH directories for symlinks
-  for (const pathDir of COMMON_PATH_DIRS) {
-    if (!existsSync(pathDir)) continue;
-
-    try {
-      const files = readdirSync(pathDir);
-      for (const file of files) {
-        const fullPath = join(pathDir, file);
-        try {
-          const stats = lstatSync(fullPath);
-          if (stats.isSymbolicLink()) {
-            const target = await readlink(fullPath);
-            if (
-              target.includes(".droid-patch/bins") ||
-              target.includes(".droid-patch/websearch") ||
-              target.includes(".droid-patch/proxy") ||
-              target.includes(".droid-patch/statusline")
-            ) {
-              aliasNames.add(file);
-            }
-          }
-        } catch {
-          // Ignore
-        }
-      }
-    } catch {
-      // Directory can't be read
-    }
-  }
-
-  // Check aliases directory
-  if (existsSync(ALIASES_DIR)) {
-    try {
-      const files = readdirSync(ALIASES_DIR);
-      for (const file of files) {
-        const fullPath = join(ALIASES_DIR, file);
-        try {
-          const stats = lstatSync(fullPath);
-          if (stats.isSymbolicLink()) {
-            aliasNames.add(file);
-          }
-        } catch {
-          // Ignore
-        }
-      }
-    } catch {
-      // Directory can't be read
-    }
-  }
-
   // Filter aliases by metadata
   const matchingAliases: string[] = [];
 
-  for (const aliasName of aliasNames) {
-    const meta = await loadAliasMetadata(aliasName);
-
-    // If no metadata, skip (can't filter without metadata)
-    if (!meta) {
-      continue;
-    }
-
-    let matches = true;
-
-    // Check droid-patch version
-    if (filter.patchVersion && meta.droidPatchVersion !== filter.patchVersion) {
-      matches = false;
-    }
-
-    // Check droid version
-    if (filter.droidVersion && meta.droidVersion !== filter.droidVersion) {
-      matches = false;
-    }
-
-    // Check flags (all specified flags must match)
-    if (filter.flags && filter.flags.length > 0) {
-      const patches = meta.patches;
-      for (const flag of filter.flags) {
-        switch (flag) {
-          case "is-custom":
-            if (!patches.isCustom) matches = false;
-            break;
-          case "skip-login":
-            if (!patches.skipLogin) matches = false;
-            break;
-          case "websearch":
-            if (!patches.websearch) matches = false;
-            break;
-          case "reasoning-effort":
-            if (!patches.reasoningEffort) matches = false;
-            break;
-          case "api-base":
-            if (!patches.apiBase) matches = false;
-            break;
-          case "disable-telemetry":
-            if (!patches.noTelemetry) matches = false;
-            break;
-          case "standalone":
-            if (!patches.standalone) matches = false;
-            break;
-        }
-        if (!matches) break;
-      }
-    }
-
-    if (matches) {
-      matchingAliases.push(aliasName);
+  for (const alias of (await loadAliasRegistry()).aliases) {
+    // Aliases without metadata can't be filtered
+    if (alias.metadata && matchesFilter(alias.metadata, filter)) {
+      matchingAliases.push(alias.name);
     }
   }
 
   if (matchingAliases.length === 0) {
     console.log(styleText("yellow", "  No aliases match the filter criteria."));
     console.log();
-    return;
+    return [];
   }
 
   console.log(styleText("white", `  Found ${matchingAliases.length} matching alias(es):`));
@@ -1387,74 +1491,45 @@ export async function removeAliasesByFilter(filter: RemoveFilterOptions): Promis
 
   // Remove each matching alias
   for (const aliasName of matchingAliases) {
-    await removeAlias(aliasName);
+    await removeAlias(aliasName, { dryRun });
     console.log();
   }
 
-  console.log(styleText("green", `[*] Removed ${matchingAliases.length} alias(es)`));
+  console.log(
+    styleText(
+      "green",
+      dryRun
+        ? `[*] Would remove ${matchingAliases.length} alias(es)`
+        : `[*] Removed ${matchingAliases.length} alias(es)`,
+    ),
+  );
+  return matchingAliases;
 }
 
 /**
  * Clear all droid-patch aliases and related files
  */
-export async function clearAllAliases(): Promise<void> {
+export async function clearAllAliases(options: { dryRun?: boolean } = {}): Promise<void> {
+  const { dryRun = false } = options;
+  const verb = dryRun ? "Would remove" : "Removed";
   console.log(styleText("cyan", "═".repeat(60)));
   console.log(styleText(["cyan", "bold"], "  Clearing All Droid-Patch Data"));
   console.log(styleText("cyan", "═".repeat(60)));
   console.log();
-
-  // Collect all alias names
-  const aliasNames = new Set<string>();
-
-  // Check common PATH directories for symlinks
-  for (const pathDir of COMMON_PATH_DIRS) {
-    if (!existsSync(pathDir)) continue;
-
-    try {
-      const files = readdirSync(pathDir);
-      for (const file of files) {
-        const fullPath = join(pathDir, file);
-        try {
-          const stats = lstatSync(fullPath);
-          if (stats.isSymbolicLink()) {
-            const target = await readlink(fullPath);
-            if (
-              target.includes(".droid-patch/bins") ||
-              target.includes(".droid-patch/websearch") ||
-              target.includes(".droid-patch/proxy") ||
-              target.includes(".droid-patch/statusline")
-            ) {
-              aliasNames.add(file);
-            }
-          }
-        } catch {
-          // Ignore
-        }
-      }
-    } catch {
-      // Directory can't be read
-    }
+  if (dryRun) {
+    console.log(styleText("blue", "  (DRY RUN - nothing will be removed)"));
+    console.log();
   }
 
-  // Check aliases directory
-  if (existsSync(ALIASES_DIR)) {
-    try {
-      const files = readdirSync(ALIASES_DIR);
-      for (const file of files) {
-        const fullPath = join(ALIASES_DIR, file);
-        try {
-          const stats = lstatSync(fullPath);
-          if (stats.isSymbolicLink()) {
-            aliasNames.add(file);
-          }
-        } catch {
-          // Ignore
-        }
-      }
-    } catch {
-      // Directory can't be read
-    }
-  }
+  // Files already listed by removeAlias
+  const handled = new Set<string>();
+  const removePath = async (path: string, label = "") => {
+    if (handled.has(path)) return;
+    if (!dryRun) await unlink(path);
+    console.log(styleText("green", `    ${verb}${label ? ` ${label}` : ""}: ${path}`));
+  };
+
+  const aliasNames = new Set((await loadAliasRegistry()).aliases.map((a) => a.name));
 
   if (aliasNames.size === 0) {
     console.log(styleText("yellow", "  No aliases found."));
@@ -1467,7 +1542,9 @@ export async function clearAllAliases(): Promise<void> {
 
     // Remove each alias
     for (const aliasName of aliasNames) {
-      await removeAlias(aliasName);
+      for (const path of await removeAlias(aliasName, { dryRun })) {
+        handled.add(path);
+      }
       console.log();
     }
   }
@@ -1489,8 +1566,7 @@ export async function clearAllAliases(): Promise<void> {
         for (const file of files) {
           const fullPath = join(dir, file);
           try {
-            await unlink(fullPath);
-            console.log(styleText("green", `    Removed: ${fullPath}`));
+            await removePath(fullPath);
           } catch {
             // Ignore
           }
@@ -1501,14 +1577,20 @@ export async function clearAllAliases(): Promise<void> {
     }
   }
 
+  for (const dir of [join(DROID_PATCH_DIR, "generations"), join(DROID_PATCH_DIR, "store")]) {
+    if (existsSync(dir)) {
+      if (!dryRun) await rm(dir, { recursive: true, force: true });
+      console.log(styleText("green", `    ${verb}: ${dir}`));
+    }
+  }
+
   // Clean up legacy temp files from old versions
   const legacyTempFiles = ["/tmp/droid-search-proxy.pid", "/tmp/droid-search-proxy.log"];
 
   for (const tempFile of legacyTempFiles) {
     if (existsSync(tempFile)) {
       try {
-        await unlink(tempFile);
-        console.log(styleText("green", `    Removed legacy: ${tempFile}`));
+        await removePath(tempFile, "legacy");
       } catch {
         // Ignore
       }
@@ -1522,8 +1604,7 @@ export async function clearAllAliases(): Promise<void> {
       if (file.startsWith("droid-websearch-") && file.endsWith(".port")) {
         const fullPath = join("/tmp", file);
         try {
-          await unlink(fullPath);
-          console.log(styleText("green", `    Removed temp: ${fullPath}`));
+          await removePath(fullPath, "temp");
         } catch {
           // Ignore
         }
@@ -1532,8 +1613,7 @@ export async function clearAllAliases(): Promise<void> {
       if (file.startsWith("droid-search-proxy-") && file.endsWith(".port")) {
         const fullPath = join("/tmp", file);
         try {
-          await unlink(fullPath);
-          console.log(styleText("green", `    Removed legacy temp: ${fullPath}`));
+          await removePath(fullPath, "legacy temp");
         } catch {
           // Ignore
         }
@@ -1547,13 +1627,19 @@ export async function clearAllAliases(): Promise<void> {
   const metadataFile = join(DROID_PATCH_DIR, "metadata.json");
   if (existsSync(metadataFile)) {
     try {
-      await unlink(metadataFile);
-      console.log(styleText("green", `    Removed: ${metadataFile}`));
+      await removePath(metadataFile);
     } catch {
       // Ignore
     }
   }
 
   console.log();
-  console.log(styleText("green", "[*] All droid-patch data cleared successfully"));
+  console.log(
+    styleText(
+      "green",
+      dryRun
+        ? "[*] Dry run complete, nothing was removed"
+        : "[*] All droid-patch data cleared successfully",
+    ),
+  );
 }
@@ -0,0 +1,154 @@
+/**
+ * Backup Store
+ *
+ * Content-addressed copies of original droid binaries under
+ * ~/.droid-patch/backups/<sha256>/, each with a backup.json describing it.
+ * A binary is stored once no matter how often it is backed up, and every
+ * droid version that was patched can be restored.
+ */
+
+import { existsSync } from "node:fs";
+import { mkdir, readdir, readFile, rm, stat } from "node:fs/promises";
+import { homedir } from "node:os";
+import { basename, join } from "node:path";
+import { getDroidVersion } from "./droid-version.ts";
+import { copyFileAtomic, sha256File, writeFileAtomic } from "./fs-utils.ts";
+
+export interface BackupEntry {
+  /** SHA-256 of the binary, also the name of its directory */
+  sha256: string;
+  /** droid version, if it could be determined */
+  droidVersion?: string;
+  /** Path the binary was backed up from */
+  sourcePath: string;
+  /** ISO timestamp when first backed up */
+  createdAt: string;
+  /** Size in bytes */
+  size: number;
+  /** Path of the stored binary */
+  path: string;
+}
+
+type StoredBackup = Omit<BackupEntry, "path"> & { file: string };
+
+/**
+ * Directory of the backup store (resolved on each call so HOME can be overridden)
+ */
+export function getBackupsDir(): string {
+  return join(homedir(), ".droid-patch", "backups");
+}
+
+async function readEntry(dir: string): Promise<BackupEntry | null> {
+  try {
+    const stored = JSON.parse(await readFile(join(dir, "backup.json"), "utf-8")) as StoredBackup;
+    const { file, ...entry } = stored;
+    const path = join(dir, file);
+    return existsSync(path) ? { ...entry, path } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Back up a binary into the store.
+ * Returns the existing entry (existed: true) if the same content is already stored.
+ */
+export async function storeBackup(
+  sourcePath: string,
+  options: { droidVersion?: string } = {},
+): Promise<{ entry: BackupEntry; existed: boolean }> {
+  const sha256 = await sha256File(sourcePath);
+  const dir = join(getBackupsDir(), sha256);
+
+  const existing = await readEntry(dir);
+  if (existing) {
+    return { entry: existing, existed: true };
+  }
+
+  await mkdir(dir, { recursive: true });
+  const file = basename(sourcePath);
+  const path = join(dir, file);
+  await copyFileAtomic(sourcePath, path, 0o755);
+  if ((await sha256File(path)) !== sha256) {
+    await rm(dir, { recursive: true, force: true });
+    throw new Error(`${sourcePath} changed while it was being backed up`);
+  }
+
+  const droidVersion = options.droidVersion ?? getDroidVersion(sourcePath);
+  const stored: StoredBackup = {
+    sha256,
+    ...(droidVersion ? { droidVersion } : {}),
+    sourcePath,
+    createdAt: new Date().toISOString(),
+    size: (await stat(path)).size,
+    file,
+  };
+  await writeFileAtomic(join(dir, "backup.json"), JSON.stringify(stored, null, 2));
+
+  const { file: _file, ...entry } = stored;
+  return { entry: { ...entry, path }, existed: false };
+}
+
+/**
+ * List all backups, newest first
+ */
+export async function listBackups(): Promise<BackupEntry[]> {
+  const backupsDir = getBackupsDir();
+  if (!existsSync(backupsDir)) return [];
+
+  const entries: BackupEntry[] = [];
+  for (const name of await readdir(backupsDir)) {
+    if (!/^[0-9a-f]{64}$/.test(name)) continue;
+    const entry = await readEntry(join(backupsDir, name));
+    if (entry) entries.push(entry);
+  }
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Find a backup by droid version (newest backup of that version) or SHA-256 prefix.
+ * Returns null if nothing matches; throws if a hash prefix is ambiguous.
+ */
+export async function findBackup(ref: string): Promise<BackupEntry | null> {
+  const entries = await listBackups();
+
+  const byVersion = entries.find((e) => e.droidVersion === ref);
+  if (byVersion) return byVersion;
+
+  const prefix = ref.toLowerCase();
+  if (!/^[0-9a-f]{4,64}$/.test(prefix)) return null;
+  const byHash = entries.filter((e) => e.sha256.startsWith(prefix));
+  if (byHash.length > 1) {
+    throw new Error(`Backup hash prefix "${ref}" is ambiguous (${byHash.length} matches)`);
+  }
+  return byHash[0] ?? null;
+}
+
+/**
+ * Most recent backup taken from a given path
+ */
+export async function findLatestBackup(sourcePath: string): Promise<BackupEntry | null> {
+  const entries = await listBackups();
+  return entries.find((e) => e.sourcePath === sourcePath) ?? null;
+}
+
+/**
+ * Delete all but the newest `keep` backups.
+ * Backups whose hash is in `protect` are always kept and do not count towards `keep`.
+ * Returns the backups that were (or, with dryRun, would be) removed.
+ */
+export async function pruneBackups(
+  keep: number,
+  options: { dryRun?: boolean; protect?: string[] } = {},
+): Promise<BackupEntry[]> {
+  const { dryRun = false, protect = [] } = options;
+  const candidates = (await listBackups()).filter((e) => !protect.includes(e.sha256));
+  const removed = candidates.slice(keep);
+
+  if (!dryRun) {
+    for (const entry of removed) {
+      await rm(join(getBackupsDir(), entry.sha256), { recursive: true, force: true });
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,238 @@
+/**
+ * Patched Binary Store
+ *
+ * Patched binaries are stored once per (droid binary SHA-256, patch-set hash)
+ * under ~/.droid-patch/store/<key>/ and hard-linked into bins/<alias>-patched,
+ * so aliases that only differ in their wrapper share one copy on disk.
+ *
+ * An entry's link count is its reference count: every alias binary and saved
+ * generation linked to it counts. Files in bins/ are only ever replaced by
+ * renaming over them, never rewritten in place, so replacing one alias's binary
+ * cannot change another's. Entries nothing links to any more are deleted by
+ * pruneBinaryStore() after an alias is removed, updated or rolled back.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, lstatSync } from "node:fs";
+import { link, mkdir, readdir, readFile, rename, rm, stat, unlink } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join, relative, resolve, sep } from "node:path";
+import { copyFileAtomic, writeFileAtomic } from "./fs-utils.ts";
+import type { Patch } from "./patcher.ts";
+
+const BINARY_FILE = "droid-patched";
+
+export interface StoredBinary {
+  /** Hash of the droid binary SHA-256 and the patch-set hash, also the name of its directory */
+  key: string;
+  /** SHA-256 of the droid binary that was patched */
+  inputSha256: string;
+  /** Hash of the patches that were applied, see patchSetHash() */
+  patchSetHash: string;
+  /** Names of the patches that were applied */
+  patches: string[];
+  /** droid version, if it could be determined */
+  droidVersion?: string;
+  /** ISO timestamp when stored */
+  createdAt: string;
+  /** Size in bytes */
+  size: number;
+  /** Path of the stored binary */
+  path: string;
+  /** Alias binaries and generations linked to it */
+  references: number;
+}
+
+type StoredEntry = Omit<StoredBinary, "path" | "references">;
+
+/**
+ * Directory of the binary store (resolved on each call so HOME can be overridden)
+ */
+export function getBinaryStoreDir(): string {
+  return join(homedir(), ".droid-patch", "store");
+}
+
+/**
+ * Hash of everything that determines a patch's effect: patterns, replacements,
+ * regexes, padding and expectations. Equal hashes applied to equal inputs give
+ * equal outputs, whichever flags or patch files the patches came from.
+ */
+export function patchSetHash(patches: Patch[]): string {
+  const canonical = JSON.stringify(patches, (_key, value: unknown) => {
+    if (value instanceof RegExp) return value.toString();
+    // Buffers arrive here already converted by Buffer#toJSON
+    if (isBufferJson(value)) return Buffer.from(value.data).toString("hex");
+    return value;
+  });
+  return createHash("sha256").update(canonical).digest("hex");
+}
+
+/**
+ * Store key for a droid binary patched with a patch set
+ */
+export function binaryStoreKey(inputSha256: string, patches: Patch[]): string {
+  return createHash("sha256")
+    .update(`${inputSha256}:${patchSetHash(patches)}`)
+    .digest("hex");
+}
+
+async function readEntry(dir: string): Promise<StoredBinary | null> {
+  try {
+    const entry = JSON.parse(await readFile(join(dir, "entry.json"), "utf-8")) as StoredEntry;
+    const path = join(dir, BINARY_FILE);
+    const stats = await stat(path);
+    return { ...entry, path, references: stats.nlink - 1 };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Look up a stored binary by key
+ */
+export async function findStoredBinary(key: string): Promise<StoredBinary | null> {
+  return readEntry(join(getBinaryStoreDir(), key));
+}
+
+/**
+ * Add a patched binary to the store. With move, the file is renamed into the store
+ * instead of copied (it must be on the same filesystem). Returns the existing entry
+ * if the key is already stored.
+ */
+export async function storeBinary(
+  key: string,
+  sourcePath: string,
+  info: Omit<StoredEntry, "key" | "createdAt" | "size">,
+  options: { move?: boolean } = {},
+): Promise<StoredBinary> {
+  const dir = join(getBinaryStoreDir(), key);
+  const existing = await readEntry(dir);
+  if (existing) {
+    if (options.move) await rm(sourcePath, { force: true });
+    return existing;
+  }
+
+  await mkdir(dir, { recursive: true });
+  const path = join(dir, BINARY_FILE);
+  if (options.move) {
+    await rename(sourcePath, path);
+  } else {
+    await copyFileAtomic(sourcePath, path, 0o755);
+  }
+  const entry: StoredEntry = {
+    key,
+    ...info,
+    createdAt: new Date().toISOString(),
+    size: (await stat(path)).size,
+  };
+  // Written last: an entry without entry.json is ignored and pruned
+  await writeFileAtomic(join(dir, "entry.json"), JSON.stringify(entry, null, 2));
+  return { ...entry, path, references: 0 };
+}
+
+/**
+ * Whether a path is a binary in the store
+ */
+export function isStoredBinary(path: string): boolean {
+  const rel = relative(getBinaryStoreDir(), resolve(path));
+  return !rel.startsWith("..") && rel.split(sep).at(-1) === BINARY_FILE;
+}
+
+/**
+ * Put a binary at destPath as a hard link to sourcePath, replacing destPath in one
+ * rename. Falls back to a copy where hard links are not supported (e.g. across
+ * filesystems). Returns whether the file was linked.
+ */
+export async function linkBinary(sourcePath: string, destPath: string): Promise<boolean> {
+  await mkdir(dirname(destPath), { recursive: true });
+  const tempPath = `${destPath}.link-${process.pid}`;
+  await rm(tempPath, { force: true });
+  try {
+    await link(sourcePath, tempPath);
+  } catch {
+    await copyFileAtomic(sourcePath, destPath, 0o755);
+    return false;
+  }
+  try {
+    await rename(tempPath, destPath);
+  } catch (error) {
+    await unlink(tempPath).catch(() => {});
+    throw error;
+  }
+  return true;
+}
+
+/**
+ * Remove the store entry a binary is hard-linked to, so the next store of its key
+ * patches afresh. Used when the binary was changed in place, which changes the
+ * stored copy too. Other links keep the changed file. Returns whether an entry was removed.
+ */
+export async function evictStoredBinary(path: string): Promise<boolean> {
+  const stats = lstatSync(path, { throwIfNoEntry: false });
+  if (!stats) return false;
+  for (const entry of await listStoredBinaries()) {
+    const stored = lstatSync(entry.path);
+    if (stored.ino === stats.ino && stored.dev === stats.dev) {
+      await rm(dirname(entry.path), { recursive: true, force: true });
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * List all stored binaries, newest first
+ */
+export async function listStoredBinaries(): Promise<StoredBinary[]> {
+  const storeDir = getBinaryStoreDir();
+  if (!existsSync(storeDir)) return [];
+
+  const entries: StoredBinary[] = [];
+  for (const name of await readdir(storeDir)) {
+    if (!/^[0-9a-f]{64}$/.test(name)) continue;
+    const entry = await readEntry(join(storeDir, name));
+    if (entry) entries.push(entry);
+  }
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Directories in the store that nothing links to: entries without references,
+ * and incomplete entries left by an interrupted store
+ */
+export async function findUnusedStoreEntries(): Promise<string[]> {
+  const storeDir = getBinaryStoreDir();
+  if (!existsSync(storeDir)) return [];
+
+  const unused: string[] = [];
+  for (const name of await readdir(storeDir)) {
+    const dir = join(storeDir, name);
+    if (!lstatSync(dir).isDirectory()) continue;
+    const entry = await readEntry(dir);
+    if (!entry || entry.references === 0) unused.push(dir);
+  }
+  return unused;
+}
+
+/**
+ * Delete stored binaries no alias or generation links to.
+ * Returns the directories that were (or, with dryRun, would be) removed.
+ */
+export async function pruneBinaryStore(options: { dryRun?: boolean } = {}): Promise<string[]> {
+  const unused = await findUnusedStoreEntries();
+  if (!options.dryRun) {
+    for (const dir of unused) {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+  return unused;
+}
+
+function isBufferJson(value: unknown): value is { type: "Buffer"; data: number[] } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { type?: unknown }).type === "Buffer" &&
+    Array.isArray((value as { data?: unknown }).data)
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * Bun Standalone Executables
+ *
+ * droid is built with `bun build --compile`: the Bun runtime with the module graph
+ * (the bundled JS and any other embedded files) stored inside the executable,
+ * either appended to it (ELF) or in a section of its own (Mach-O, PE, newer ELF).
+ * Wherever it is, the graph ends with a fixed layout:
+ *
+ *   [module contents, names, sourcemaps...][module table][offsets][trailer]
+ *
+ * The offsets hold the size of everything before them, the location of the
+ * module table and the index of the entry point. Pointers inside the graph are
+ * relative to its start. Field sizes differ between Bun versions, so each known
+ * layout is tried and checked against the bounds of the graph.
+ */
+
+import { readFile } from "node:fs/promises";
+import { styleText } from "node:util";
+import { detectExecutableFormat, type ExecutableFormat } from "./executable-sections.ts";
+
+const TRAILER = Buffer.from("\n---- Bun! ----\n");
+
+// Offsets: byte count (u64), module table pointer, entry point id (u32), then in
+// newer versions the exec argv pointer; padded to 8 bytes
+const OFFSETS_SIZES = [32, 24];
+
+// Module records: name, contents, sourcemap (and bytecode in newer versions)
+// pointers, followed by one-byte encoding and loader fields
+const MODULE_RECORD_SIZES = [36, 28];
+
+const ENCODINGS = ["binary", "latin1", "utf8"] as const;
+const LOADERS = ["jsx", "js", "ts", "tsx", "css", "file", "json"];
+
+export type ModuleEncoding = (typeof ENCODINGS)[number];
+
+export interface EmbeddedModule {
+  /** Path inside the executable, e.g. /$bunfs/root/droid */
+  name: string;
+  /** File offset of the contents */
+  offset: number;
+  /** Size of the contents in bytes */
+  size: number;
+  encoding: ModuleEncoding;
+  /** Bun loader, e.g. js or file (a number for loaders not known here) */
+  loader: string;
+  /** Size of the embedded sourcemap, 0 if none */
+  sourcemapSize: number;
+  /** Size of the precompiled bytecode, 0 if none */
+  bytecodeSize: number;
+  /** Whether this is the main bundle run at startup */
+  entryPoint: boolean;
+}
+
+export interface StandaloneModuleGraph {
+  format: ExecutableFormat;
+  /** File offset of the module graph */
+  offset: number;
+  /** Size of the module graph, without the offsets and trailer */
+  size: number;
+  modules: EmbeddedModule[];
+  entryPoint: EmbeddedModule;
+}
+
+interface StringPointer {
+  offset: number;
+  length: number;
+}
+
+/**
+ * Find and parse the module graph of a Bun standalone executable
+ * Returns null if the file is not one (or uses a layout not known here)
+ */
+export function parseStandaloneGraph(data: Buffer): StandaloneModuleGraph | null {
+  // The runtime itself contains the trailer string, so keep looking until one checks out
+  let trailerAt = data.lastIndexOf(TRAILER);
+  while (trailerAt !== -1) {
+    for (const offsetsSize of OFFSETS_SIZES) {
+      const graph = parseGraphAt(data, trailerAt - offsetsSize);
+      if (graph) return { format: detectExecutableFormat(data), ...graph };
+    }
+    if (trailerAt === 0) break;
+    trailerAt = data.lastIndexOf(TRAILER, trailerAt - 1);
+  }
+  return null;
+}
+
+/**
+ * Read a file and parse its module graph
+ */
+export async function readStandaloneGraph(
+  path: string,
+): Promise<{ data: Buffer; graph: StandaloneModuleGraph | null }> {
+  const data = await readFile(path);
+  return { data, graph: parseStandaloneGraph(data) };
+}
+
+/**
+ * Find an embedded module by its full name or its file name
+ */
+export function findEmbeddedModule(
+  graph: StandaloneModuleGraph,
+  name: string,
+): EmbeddedModule | undefined {
+  return (
+    graph.modules.find((module) => module.name === name) ??
+    graph.modules.find((module) => module.name.split(/[/\\]/).at(-1) === name)
+  );
+}
+
+/**
+ * Print the embedded modules as a table: file offset, size, loader and name
+ */
+export function printModuleGraph(graph: StandaloneModuleGraph): void {
+  const hex = (n: number) => `0x${n.toString(16).padStart(8, "0")}`;
+  console.log(styleText("white", `Format: ${graph.format}`));
+  console.log(styleText("white", `Module graph: ${graph.size} bytes at ${hex(graph.offset)}`));
+  console.log();
+
+  const sizeWidth = Math.max(...graph.modules.map((module) => String(module.size).length));
+  const loaderWidth = Math.max(...graph.modules.map((module) => module.loader.length));
+  for (const module of graph.modules) {
+    const notes = [
+      module.entryPoint ? "entry point" : "",
+      module.sourcemapSize ? "sourcemap" : "",
+      module.bytecodeSize ? "bytecode" : "",
+    ].filter(Boolean);
+    console.log(
+      `  ${hex(module.offset)}  ${String(module.size).padStart(sizeWidth)}  ${styleText("yellow", module.loader.padEnd(loaderWidth))}  ${module.name}` +
+        (notes.length > 0 ? styleText("gray", ` (${notes.join(", ")})`) : ""),
+    );
+  }
+}
+
+function parseGraphAt(
+  data: Buffer,
+  offsetsAt: number,
+): Omit<StandaloneModuleGraph, "format"> | null {
+  if (offsetsAt < 0) return null;
+  const size = Number(data.readBigUInt64LE(offsetsAt));
+  const start = offsetsAt - size;
+  if (size === 0 || start < 0) return null;
+  const table = readPointer(data, offsetsAt + 8);
+  const entryPointId = data.readUInt32LE(offsetsAt + 16);
+  if (table.length === 0 || table.offset + table.length > size) return null;
+
+  for (const recordSize of MODULE_RECORD_SIZES) {
+    if (table.length % recordSize !== 0) continue;
+    const count = table.length / recordSize;
+    if (entryPointId >= count) continue;
+
+    const modules: EmbeddedModule[] = [];
+    for (let i = 0; i < count; i++) {
+      const recordAt = start + table.offset + i * recordSize;
+      const module = parseModule(data, start, size, recordAt, recordSize, i === entryPointId);
+      if (!module) break;
+      modules.push(module);
+    }
+    if (modules.length === count) {
+      return { offset: start, size, modules, entryPoint: modules[entryPointId] };
+    }
+  }
+  return null;
+}
+
+function parseModule(
+  data: Buffer,
+  start: number,
+  size: number,
+  recordAt: number,
+  recordSize: number,
+  entryPoint: boolean,
+): EmbeddedModule | null {
+  const hasBytecode = recordSize === 36;
+  const name = readPointer(data, recordAt);
+  const contents = readPointer(data, recordAt + 8);
+  const sourcemap = readPointer(data, recordAt + 16);
+  const bytecode = hasBytecode ? readPointer(data, recordAt + 24) : { offset: 0, length: 0 };
+  const flagsAt = recordAt + (hasBytecode ? 32 : 24);
+  const encoding = ENCODINGS[data[flagsAt]];
+  const loader = data[flagsAt + 1];
+
+  const inBounds = (pointer: StringPointer) => pointer.offset + pointer.length <= size;
+  if (
+    name.length === 0 ||
+    !encoding ||
+    ![name, contents, sourcemap, bytecode].every((pointer) => inBounds(pointer))
+  ) {
+    return null;
+  }
+  return {
+    name: data.toString("utf-8", start + name.offset, start + name.offset + name.length),
+    offset: start + contents.offset,
+    size: contents.length,
+    encoding,
+    loader: LOADERS[loader] ?? String(loader),
+    sourcemapSize: sourcemap.length,
+    bytecodeSize: bytecode.length,
+    entryPoint,
+  };
+}
+
+function readPointer(data: Buffer, at: number): StringPointer {
+  return { offset: data.readUInt32LE(at), length: data.readUInt32LE(at + 4) };
+}
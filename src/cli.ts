@@ -1,33 +1,96 @@
 import bin from "tiny-bin";
 import { styleText } from "node:util";
-import { existsSync, readFileSync } from "node:fs";
-import { join, dirname } from "node:path";
+import { existsSync, lstatSync, readFileSync, writeSync } from "node:fs";
+import { mkdir, rm } from "node:fs/promises";
+import { basename, join, dirname, resolve } from "node:path";
 import { homedir, platform } from "node:os";
 import { fileURLToPath } from "node:url";
 import { execSync } from "node:child_process";
-import { patchDroid, type Patch } from "./patcher.ts";
+import { patchDroid, type PatchDroidResult } from "./patcher.ts";
+import { sha256File, writeFileAtomic } from "./fs-utils.ts";
+import {
+  binaryStoreKey,
+  evictStoredBinary,
+  findStoredBinary,
+  linkBinary,
+  patchSetHash,
+  pruneBinaryStore,
+  storeBinary,
+} from "./binary-store.ts";
+import {
+  findEmbeddedModule,
+  printModuleGraph,
+  readStandaloneGraph,
+  type StandaloneModuleGraph,
+} from "./bun-standalone.ts";
+import { getDroidVersion } from "./droid-version.ts";
+import { printDoctorReport, runDoctor } from "./doctor.ts";
+import { collectGarbage, printGarbageReport } from "./gc.ts";
+import {
+  listGenerations,
+  renameGenerations,
+  rollbackAlias,
+  saveGeneration,
+} from "./generations.ts";
+import {
+  findBackup,
+  getBackupsDir,
+  listBackups,
+  pruneBackups,
+  storeBackup,
+  type BackupEntry,
+} from "./backup-store.ts";
+import {
+  buildPatches,
+  isApiBaseBinaryPatch,
+  hasBinaryPatches,
+  normalizeApiBase,
+  MAX_API_BASE_LENGTH,
+  type PatchFlags,
+} from "./patches.ts";
 import {
   createAlias,
   removeAlias,
   listAliases,
+  loadAliasRegistry,
+  queryAliases,
   createAliasForWrapper,
   clearAllAliases,
+  findAliasBinary,
+  findWritablePathDir,
   removeAliasesByFilter,
+  replaceOriginal,
+  restoreOriginal,
+  FILTER_FLAGS,
+  type AliasSortKey,
   type FilterFlag,
+  type FlagCondition,
+  type RemoveFilterOptions,
 } from "./alias.ts";
-import { createWebSearchUnifiedFiles } from "./websearch-patch.ts";
+import { createWebSearchFilesForFlags } from "./websearch-patch.ts";
+import { exportAliasConfigs, readAliasConfigFile, type AliasConfig } from "./alias-config.ts";
+import { definitionsToPatches, loadPatchFiles, type PatchDefinition } from "./patch-file.ts";
+import { EXIT_CODES, type ExitCode } from "./exit-codes.ts";
+import { enableJsonMode, finish, isJsonMode, patchResultsToJson } from "./json-output.ts";
 import {
   saveAliasMetadata,
   createMetadata,
   loadAliasMetadata,
   listAllMetadata,
   formatPatches,
+  saveReplacementMetadata,
+  loadReplacementMetadata,
+  removeReplacementMetadata,
+  verifyAliasBinary,
+  type AliasMetadata,
+  type ReplacementMetadata,
 } from "./metadata.ts";
 import {
   addModel,
   addModelInteractive,
   removeModel,
   printModelsList,
+  getModelsListing,
   type Provider,
 } from "./model-manager.ts";
 
@@ -46,19 +109,516 @@ function getVersion(): string {
 
 const version = getVersion();
 
-function getDroidVersion(droidPath: string): string | undefined {
+const FLAG_FILTER_HELP = `Filter by flag, repeatable or comma-separated, ! to negate (${FILTER_FLAGS.join(", ")})`;
+
+/**
+ * Normalize a repeatable option value (undefined, one string, or many) to a list
+ */
+function toArray(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
+
+/**
+ * Exit code for a patchDroid result
+ */
+function patchExitCode(result: PatchDroidResult): ExitCode {
+  if (result.rejected) return EXIT_CODES.PATCH_REJECTED;
+  return result.success ? EXIT_CODES.SUCCESS : EXIT_CODES.PATCH_FAILED;
+}
+
+/**
+ * Error messages for a failed patchDroid result
+ */
+function patchErrors(result: PatchDroidResult): string[] {
+  if (result.success) return [];
+  const rejected = result.results.filter((r) => r.rejected).map((r) => `${r.name}: ${r.rejected}`);
+  if (rejected.length > 0) return rejected;
+  const missing = result.results.filter((r) => !r.success).map((r) => r.name);
+  return missing.length > 0
+    ? [`Patterns not found: ${missing.join(", ")}`]
+    : ["Patches could not be verified"];
+}
+
+/**
+ * Patch flags selected on the command line
+ */
+function readPatchFlags(options: Record<string, unknown>): PatchFlags {
+  return {
+    isCustom: !!options["is-custom"],
+    skipLogin: !!options["skip-login"],
+    apiBase: (options["api-base"] as string | undefined) || null,
+    websearch: !!options["websearch"],
+    websearchProxy: !!options["websearch-proxy"],
+    reasoningEffort: !!options["reasoning-effort"],
+    noTelemetry: !!options["disable-telemetry"],
+    standalone: !!options["standalone"],
+  };
+}
+
+/**
+ * Exit with a usage error if a binary-patched --api-base URL does not fit in the binary
+ */
+function checkApiBaseLength(command: string, patchFlags: PatchFlags): void {
+  if (!isApiBaseBinaryPatch(patchFlags)) return;
+  const normalizedUrl = normalizeApiBase(patchFlags.apiBase!);
+  if (normalizedUrl.length <= MAX_API_BASE_LENGTH) return;
+
+  console.log(
+    styleText("red", `Error: API base URL must be ${MAX_API_BASE_LENGTH} characters or less`),
+  );
+  console.log(styleText("gray", `  Your URL: "${normalizedUrl}" (${normalizedUrl.length} chars)`));
+  console.log(styleText("gray", `  Maximum:  ${MAX_API_BASE_LENGTH} characters`));
+  console.log();
+  console.log(styleText("yellow", "Tip: Use a shorter URL or set up a local redirect."));
+  console.log(styleText("gray", "  Examples:"));
+  console.log(styleText("gray", "    http://127.0.0.1:3000 (19 chars)"));
+  console.log(styleText("gray", "    http://localhost:80  (19 chars)"));
+  finish(command, EXIT_CODES.USAGE, {}, [
+    `API base URL must be ${MAX_API_BASE_LENGTH} characters or less`,
+  ]);
+}
+
+/**
+ * Patch the installed droid binary in place.
+ * The unpatched binary is backed up (per droid version) before it is replaced, and
+ * the replacement is recorded so `update` can re-apply it after droid self-updates.
+ * If droid is still the binary written by a previous replacement, it is re-patched
+ * from that replacement's backup instead.
+ */
+async function replaceInPlace(options: {
+  droidPath: string;
+  patchFlags: PatchFlags;
+  customPatches: PatchDefinition[];
+  dryRun: boolean;
+  verbose: boolean;
+}): Promise<{ result: PatchDroidResult; replacement?: ReplacementMetadata }> {
+  const { droidPath, patchFlags, customPatches, dryRun, verbose } = options;
+
+  const previous = await loadReplacementMetadata();
+  const current = previous?.originalPath === droidPath ? previous : null;
+  const currentSha256 = await sha256File(droidPath);
+  const isReplaced = !!current && current.outputSha256 === currentSha256;
+  if (current && isReplaced && !existsSync(current.backupPath)) {
+    throw new Error(`Backup of the original droid binary is missing: ${current.backupPath}`);
+  }
+  const sourcePath = current && isReplaced ? current.backupPath : droidPath;
+
+  const binsDir = join(homedir(), ".droid-patch", "bins");
+  await mkdir(binsDir, { recursive: true });
+  const patchedPath = join(binsDir, "droid-replace.patched");
+
+  const result = await patchDroid({
+    inputPath: sourcePath,
+    outputPath: patchedPath,
+    patches: [...buildPatches(patchFlags), ...definitionsToPatches(customPatches)],
+    dryRun,
+    backup: false,
+    verbose,
+    silent: isJsonMode(),
+  });
+  // Nothing was written: a dry run, a failure, or droid already carries these patches
+  if (dryRun || !result.success || result.noPatchNeeded) {
+    await rm(patchedPath, { force: true });
+    return { result };
+  }
+
+  const droidVersion = getDroidVersion(sourcePath);
+  let backupPath: string;
   try {
-    const result = execSync(`"${droidPath}" --version`, {
-      encoding: "utf-8",
-      stdio: ["pipe", "pipe", "pipe"],
-      timeout: 5000,
-    }).trim();
-    // Parse version from output like "droid 1.2.3" or just "1.2.3"
-    const match = result.match(/(\d+\.\d+\.\d+)/);
-    return match ? match[1] : result || undefined;
-  } catch {
-    return undefined;
+    console.log();
+    if (current && isReplaced) {
+      backupPath = current.backupPath;
+    } else {
+      const { entry, existed } = await storeBackup(droidPath, { droidVersion });
+      backupPath = entry.path;
+      if (!existed) {
+        console.log(styleText("green", `[*] Backed up original: ${backupPath}`));
+      }
+    }
+    await replaceOriginal(patchedPath, droidPath, verbose, { backup: false });
+  } finally {
+    await rm(patchedPath, { force: true });
+  }
+
+  const now = new Date().toISOString();
+  const replacement: ReplacementMetadata = {
+    originalPath: droidPath,
+    backupPath,
+    createdAt: current?.createdAt ?? now,
+    updatedAt: now,
+    droidPatchVersion: version,
+    droidVersion,
+    inputSha256: result.inputSha256,
+    outputSha256: await sha256File(droidPath),
+    patches: patchFlags,
+    ...(customPatches.length > 0 ? { customPatches } : {}),
+  };
+  await saveReplacementMetadata(replacement);
+  return { result, replacement };
+}
+
+/**
+ * Print the backup store contents
+ */
+function printBackups(backups: BackupEntry[]): void {
+  console.log(styleText("cyan", "═".repeat(60)));
+  console.log(styleText(["cyan", "bold"], "  Droid Backups"));
+  console.log(styleText("cyan", "═".repeat(60)));
+  console.log();
+
+  if (backups.length === 0) {
+    console.log(styleText("gray", "  No backups found."));
+  }
+  for (const entry of backups) {
+    const label = entry.droidVersion ?? "unknown";
+    const sizeMB = (entry.size / (1024 * 1024)).toFixed(1);
+    console.log(
+      `  ${styleText("green", label.padEnd(10))} ${styleText("yellow", entry.sha256.slice(0, 12))}  ${sizeMB.padStart(7)} MB  ${styleText("gray", entry.createdAt)}`,
+    );
+    console.log(styleText("gray", `    from ${entry.sourcePath}`));
+  }
+  console.log();
+  console.log(styleText("gray", `  Backups directory: ${getBackupsDir()}`));
+  console.log();
+}
+
+/**
+ * Parse --flag filter values (list, remove, clear): repeatable, comma-separated, "!" negates
+ */
+function readFilterFlags(command: string, value: unknown): FlagCondition[] {
+  const conditions = toArray(value)
+    .flatMap((v) => v.split(","))
+    .map((v) => v.trim())
+    .filter(Boolean);
+  const invalid = conditions.filter(
+    (c) => !FILTER_FLAGS.includes((c.startsWith("!") ? c.slice(1) : c) as FilterFlag),
+  );
+  if (invalid.length > 0) {
+    console.log(styleText("red", `Error: Invalid --flag value: ${invalid.join(", ")}`));
+    console.log(styleText("gray", `Allowed: ${FILTER_FLAGS.join(", ")} (prefix with ! to negate)`));
+    finish(command, EXIT_CODES.USAGE, {}, [`Invalid --flag value: ${invalid.join(", ")}`]);
+  }
+  return conditions as FlagCondition[];
+}
+
+/**
+ * Read the alias filter options shared by list, remove and clear
+ */
+function readAliasFilter(command: string, options: Record<string, unknown>): RemoveFilterOptions {
+  const match = (options.match as string | undefined) ?? "all";
+  if (match !== "all" && match !== "any") {
+    console.log(styleText("red", `Error: Invalid --match value: ${match}`));
+    console.log(styleText("gray", "Allowed: all, any"));
+    finish(command, EXIT_CODES.USAGE, {}, [`Invalid --match value: ${match}`]);
+  }
+  const flags = readFilterFlags(command, options.flag);
+  return {
+    patchVersion: options["patch-version"] as string | undefined,
+    droidVersion: options["droid-version"] as string | undefined,
+    flags: flags.length > 0 ? flags : undefined,
+    flagMode: match,
+  };
+}
+
+/**
+ * The binary to build aliases from: if droid itself was patched in place by
+ * `replace`, its unpatched backup
+ */
+async function unpatchedSource(droidPath: string, verbose: boolean): Promise<string> {
+  const replacement = await loadReplacementMetadata();
+  if (!replacement || resolve(droidPath) !== resolve(replacement.originalPath)) {
+    return droidPath;
+  }
+  if (!existsSync(replacement.backupPath)) return droidPath;
+  if (verbose) {
+    console.log(
+      styleText("gray", `  Building aliases from unpatched backup: ${replacement.backupPath}`),
+    );
+  }
+  return replacement.backupPath;
+}
+
+/**
+ * Re-patch an alias from its metadata: rebuild the binary from sourceBinaryPath,
+ * regenerate the websearch wrapper, repoint the symlink and save the metadata.
+ * Used by `update` (new droid binary) and `edit` (changed flags).
+ */
+async function rebuildAlias(
+  meta: AliasMetadata,
+  sourceBinaryPath: string,
+  verbose: boolean,
+): Promise<{
+  ok: boolean;
+  patches?: ReturnType<typeof patchResultsToJson>;
+  outputPath?: string;
+  aliasPath?: string | null;
+  error?: string;
+}> {
+  // Build patch list based on metadata
+  const patches = [
+    ...buildPatches(meta.patches),
+    ...definitionsToPatches(meta.customPatches ?? []),
+  ];
+
+  // Determine output path based on whether this is a websearch alias
+  const binsDir = join(homedir(), ".droid-patch", "bins");
+  const outputPath = join(binsDir, `${meta.name}-patched`);
+  let inputSha256: string | undefined;
+  let patchResults: ReturnType<typeof patchResultsToJson> | undefined;
+
+  // Apply patches (only if there are binary patches to apply)
+  if (patches.length > 0) {
+    inputSha256 = await sha256File(sourceBinaryPath);
+    const key = binaryStoreKey(inputSha256, patches);
+    let stored = await findStoredBinary(key);
+    if (stored) {
+      // Another alias already runs this droid binary with the same patches
+      if (verbose) {
+        console.log(styleText("gray", `  Reusing stored binary: ${stored.path}`));
+      }
+    } else {
+      const tempOutputPath = `${outputPath}.new`;
+      const result = await patchDroid({
+        inputPath: sourceBinaryPath,
+        outputPath: tempOutputPath,
+        patches,
+        dryRun: false,
+        backup: false,
+        verbose,
+        silent: isJsonMode(),
+      });
+      patchResults = patchResultsToJson(result.results);
+
+      if (!result.success || !result.outputPath) {
+        await rm(tempOutputPath, { force: true });
+        console.log(styleText("red", `  ✗ Failed to apply patches`));
+        return { ok: false, patches: patchResults, error: patchErrors(result).join("; ") };
+      }
+
+      // patchDroid has already re-signed it on macOS
+      stored = await storeBinary(
+        key,
+        result.outputPath,
+        {
+          inputSha256,
+          patchSetHash: patchSetHash(patches),
+          patches: patches.map((p) => p.name),
+          droidVersion: getDroidVersion(sourceBinaryPath),
+        },
+        // Already patched: patchDroid wrote nothing and returned its input
+        { move: result.outputPath === tempOutputPath },
+      );
+    }
+    await linkBinary(stored.path, outputPath);
+  }
+
+  let execTargetPath = patches.length > 0 ? outputPath : sourceBinaryPath;
+
+  // If websearch is enabled (either mode), regenerate wrapper files
+  const proxyDir = join(homedir(), ".droid-patch", "proxy");
+  const websearchFiles = await createWebSearchFilesForFlags(
+    proxyDir,
+    execTargetPath,
+    meta.name,
+    meta.patches,
+  );
+  if (websearchFiles) {
+    execTargetPath = websearchFiles.wrapperScript;
+    if (verbose) {
+      console.log(styleText("gray", `  Regenerated websearch wrapper`));
+      if (meta.patches.standalone) {
+        console.log(styleText("gray", `  Standalone mode: enabled`));
+      }
+    }
+    // Migrate old proxy field to new websearch field
+    if (meta.patches.proxy && !meta.patches.websearch) {
+      meta.patches.websearch = true;
+      meta.patches.apiBase = meta.patches.proxy;
+      delete meta.patches.proxy;
+    }
+  }
+
+  // If this alias previously used removed features (statusline/sessions), drop legacy flags
+  // so the updated alias points directly to the new target wrapper/binary.
+  delete (meta.patches as Record<string, unknown>).statusline;
+  delete (meta.patches as Record<string, unknown>).sessions;
+
+  // Update symlink - find existing or use stored aliasPath
+  const { symlink, unlink, readlink } = await import("node:fs/promises");
+  let aliasPath = meta.aliasPath;
+
+  // If aliasPath not stored (old version), use the existing symlink
+  if (!aliasPath) {
+    const registered = (await loadAliasRegistry()).aliases.find((a) => a.name === meta.name);
+    aliasPath = registered?.links[0]?.path;
+    if (aliasPath && verbose) {
+      console.log(styleText("gray", `  Found existing symlink: ${aliasPath}`));
+    }
+  }
+
+  // Update symlink if we have a path
+  if (aliasPath) {
+    try {
+      if (existsSync(aliasPath)) {
+        const currentTarget = await readlink(aliasPath);
+        if (currentTarget !== execTargetPath) {
+          await unlink(aliasPath);
+          await symlink(execTargetPath, aliasPath);
+          if (verbose) {
+            console.log(styleText("gray", `  Updated symlink: ${aliasPath}`));
+          }
+        }
+      } else {
+        // Symlink doesn't exist, recreate it
+        await symlink(execTargetPath, aliasPath);
+        if (verbose) {
+          console.log(styleText("gray", `  Recreated symlink: ${aliasPath}`));
+        }
+      }
+      // Store aliasPath in metadata for future updates
+      meta.aliasPath = aliasPath;
+    } catch (symlinkError) {
+      console.log(
+        styleText("yellow", `  [!] Could not update symlink: ${(symlinkError as Error).message}`),
+      );
+    }
+  }
+
+  // Drop files for flags the alias no longer has (after `edit`)
+  if (patches.length === 0) {
+    await rm(outputPath, { force: true });
+  }
+  if (!websearchFiles) {
+    for (const file of [meta.name, `${meta.name}.cmd`, `${meta.name}-proxy.js`]) {
+      await rm(join(proxyDir, file), { force: true });
+    }
+  }
+  // The binary the alias ran before may no longer be linked from anywhere
+  await pruneBinaryStore();
+
+  // Update metadata
+  meta.updatedAt = new Date().toISOString();
+  meta.originalBinaryPath = sourceBinaryPath;
+  meta.droidVersion = getDroidVersion(sourceBinaryPath);
+  meta.droidPatchVersion = version;
+  meta.inputSha256 = inputSha256 ?? (await sha256File(sourceBinaryPath));
+  if (patches.length > 0) {
+    meta.outputSha256 = await sha256File(outputPath);
+  } else {
+    delete meta.outputSha256;
+  }
+  await saveAliasMetadata(meta);
+
+  return {
+    ok: true,
+    patches: patchResults,
+    outputPath: execTargetPath,
+    aliasPath: aliasPath ?? null,
+  };
+}
+
+/**
+ * Why newName cannot be used for a new alias, or null if it can. An existing
+ * alias is only accepted with replace; a file on PATH that is not an alias never is.
+ */
+async function newAliasNameProblem(newName: string, replace = false): Promise<string | null> {
+  if (!newName || /[\\/]/.test(newName)) {
+    return `Invalid alias name: "${newName}"`;
+  }
+  if ((await loadAliasRegistry()).aliases.some((a) => a.name === newName)) {
+    return replace ? null : `Alias "${newName}" already exists`;
+  }
+  const pathDir = IS_WINDOWS ? null : findWritablePathDir();
+  if (pathDir) {
+    const target = join(pathDir, newName);
+    if (lstatSync(target, { throwIfNoEntry: false })) {
+      return `${target} already exists and is not a droid-patch alias`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Exit with a usage error unless newName can be used for a new alias
+ */
+async function checkNewAliasName(command: string, newName: string): Promise<void> {
+  const problem = await newAliasNameProblem(newName);
+  if (problem) {
+    console.log(styleText("red", `Error: ${problem}`));
+    finish(command, EXIT_CODES.USAGE, { to: newName }, [problem]);
+  }
+}
+
+/**
+ * Recreate an alias under a new name: link its patched binary, regenerate the
+ * websearch wrapper (whose file names embed the alias name), link the new alias
+ * and save its metadata with `changes` applied. Used by `rename` and `clone`.
+ */
+async function copyAliasAs(
+  meta: AliasMetadata,
+  newName: string,
+  changes: Partial<AliasMetadata>,
+  verbose: boolean,
+): Promise<AliasMetadata> {
+  let execTargetPath = meta.originalBinaryPath;
+  const source = await findAliasBinary(meta.name);
+  if (source) {
+    // Keep whatever follows the alias name (-patched, -patched.exe, a lock timestamp)
+    const dest = join(dirname(source), newName + basename(source).slice(meta.name.length));
+    const linked = await linkBinary(source, dest);
+    if (verbose) {
+      console.log(styleText("gray", `  ${linked ? "Linked" : "Copied"} binary: ${dest}`));
+    }
+    execTargetPath = dest;
+  }
+
+  const patches = changes.patches ?? meta.patches;
+  const proxyDir = join(homedir(), ".droid-patch", "proxy");
+  const websearchFiles = await createWebSearchFilesForFlags(
+    proxyDir,
+    execTargetPath,
+    newName,
+    patches,
+  );
+  if (websearchFiles) {
+    execTargetPath = websearchFiles.wrapperScript;
+    if (verbose) {
+      console.log(styleText("gray", `  Generated websearch wrapper: ${execTargetPath}`));
+    }
+  }
+
+  const aliasResult = await createAliasForWrapper(execTargetPath, newName, verbose);
+  const copy: AliasMetadata = {
+    ...structuredClone(meta),
+    ...changes,
+    name: newName,
+    aliasPath: aliasResult.aliasPath,
+    updatedAt: new Date().toISOString(),
+  };
+  await saveAliasMetadata(copy);
+  return copy;
+}
+
+/**
+ * Read a droid binary's embedded module graph, exiting if there is none
+ */
+async function loadModuleGraph(
+  command: string,
+  droidPath: string,
+): Promise<{ data: Buffer; graph: StandaloneModuleGraph }> {
+  if (!existsSync(droidPath)) {
+    console.log(styleText("red", `Error: Binary not found: ${droidPath}`));
+    finish(command, EXIT_CODES.NOT_FOUND, { droidPath }, [`Binary not found: ${droidPath}`]);
   }
+  const { data, graph } = await readStandaloneGraph(droidPath);
+  if (!graph) {
+    console.log(styleText("red", `Error: Not a Bun standalone executable: ${droidPath}`));
+    finish(command, EXIT_CODES.ERROR, { droidPath }, [
+      `Not a Bun standalone executable: ${droidPath}`,
+    ]);
+  }
+  return { data, graph };
 }
 
 function findDefaultDroidPath(): string {
@@ -166,13 +726,22 @@ bin("droid-patch", "CLI tool to patch droid binary with various modifications")
     "--disable-telemetry",
     "Disable telemetry and Sentry error reporting (block data uploads)",
   )
+  .option(
+    "--patch-file <file...>",
+    "Apply patch definitions from a JSON/YAML file (path, or name in ~/.droid-patch/patches/)",
+  )
   .option("--dry-run", "Verify patches without actually modifying the binary")
   .option("-p, --path <path>", "Path to the droid binary")
   .option("-o, --output <dir>", "Output directory for patched binary")
   .option("--no-backup", "Do not create backup of original binary")
   .option("-v, --verbose", "Enable verbose output")
+  .option(
+    "--json",
+    "Print one machine-readable JSON document instead of decorated output (see README)",
+  )
   .argument("[alias]", "Alias name for the patched binary")
   .action(async (options, args) => {
+    if (options.json) enableJsonMode();
     const alias = args?.[0] as string | undefined;
     const isCustom = options["is-custom"] as boolean;
     const skipLogin = options["skip-login"] as boolean;
@@ -185,6 +754,7 @@ bin("droid-patch", "CLI tool to patch droid binary with various modifications")
     const websearchTarget = websearch ? apiBase || "https://api.factory.ai" : undefined;
     const reasoningEffort = options["reasoning-effort"] as boolean;
     const noTelemetry = options["disable-telemetry"] as boolean;
+    const patchFiles = toArray(options["patch-file"]);
     const dryRun = options["dry-run"] as boolean;
     const path = (options.path as string) || findDefaultDroidPath();
     const outputDir = options.output as string | undefined;
@@ -194,12 +764,17 @@ bin("droid-patch", "CLI tool to patch droid binary with various modifications")
     // If -o is specified with alias, output to that directory with alias name
     const outputPath = outputDir && alias ? join(outputDir, alias) : undefined;
 
-    const needsBinaryPatch =
-      !!isCustom ||
-      !!skipLogin ||
-      !!reasoningEffort ||
-      !!noTelemetry ||
-      (!!apiBase && !websearch && !websearchProxy);
+    const patchFlags = readPatchFlags(options);
+
+    let customPatches: PatchDefinition[] = [];
+    try {
+      customPatches = await loadPatchFiles(patchFiles);
+    } catch (error) {
+      console.log(styleText("red", `Error: ${(error as Error).message}`));
+      finish("patch", EXIT_CODES.USAGE, {}, [(error as Error).message]);
+    }
+
+    const needsBinaryPatch = hasBinaryPatches(patchFlags) || customPatches.length > 0;
 
     // Check for conflicting flags
     if (websearch && websearchProxy) {
@@ -211,7 +786,9 @@ bin("droid-patch", "CLI tool to patch droid binary with various modifications")
       console.log(
         styleText("gray", "  --websearch-proxy  Native provider (requires proxy plugin)"),
       );
-      process.exit(1);
+      finish("patch", EXIT_CODES.USAGE, {}, [
+        "Cannot use --websearch and --websearch-proxy together",
+      ]);
     }
 
     // Wrapper-only mode (no binary patching needed):
@@ -222,7 +799,7 @@ bin("droid-patch", "CLI tool to patch droid binary with various modifications")
         const flag = websearchProxy ? "--websearch-proxy" : "--websearch";
         console.log(styleText("red", `Error: Alias name required for ${flag}`));
         console.log(styleText("gray", `Usage: npx droid-patch ${flag} <alias>`));
-        process.exit(1);
+        finish("patch", EXIT_CODES.USAGE, {}, [`Alias name required for ${flag}`]);
       }
 
       console.log(styleText("cyan", "═".repeat(60)));
@@ -242,46 +819,31 @@ bin("droid-patch", "CLI tool to patch droid binary with various modifications")
       }
       console.log();
 
-      let execTargetPath = path;
+      // This mode never reads the binary, so it may not exist (yet); hash it before
+      // writing any file so a failure cannot leave an alias without metadata
+      const inputSha256 = existsSync(path) ? await sha256File(path) : undefined;
+
       // Create websearch proxy files (proxy script + wrapper)
       const proxyDir = join(homedir(), ".droid-patch", "proxy");
-      // For --websearch-proxy, apiBase comes from settings.json at runtime
-      // For --websearch, use apiBase or default Factory API
-      const forwardTarget = websearchProxy ? undefined : websearchTarget;
-      const { wrapperScript } = await createWebSearchUnifiedFiles(
+      const { wrapperScript } = (await createWebSearchFilesForFlags(
         proxyDir,
-        execTargetPath,
+        path,
         alias,
-        forwardTarget,
-        standalone,
-        websearchProxy, // useNativeProvider flag
-      );
-      execTargetPath = wrapperScript;
+        patchFlags,
+      ))!;
+      const execTargetPath = wrapperScript;
 
       // Create alias pointing to outer wrapper
       const aliasResult = await createAliasForWrapper(execTargetPath, alias, verbose);
 
       // Save metadata for update command
       const droidVersion = getDroidVersion(path);
-      const metadata = createMetadata(
-        alias,
-        path,
-        {
-          isCustom: false,
-          skipLogin: false,
-          apiBase: apiBase || null,
-          websearch: !!websearch,
-          websearchProxy: !!websearchProxy,
-          reasoningEffort: false,
-          noTelemetry: false,
-          standalone: standalone,
-        },
-        {
-          droidPatchVersion: version,
-          droidVersion,
-          aliasPath: aliasResult.aliasPath,
-        },
-      );
+      const metadata = createMetadata(alias, path, patchFlags, {
+        droidPatchVersion: version,
+        droidVersion,
+        aliasPath: aliasResult.aliasPath,
+        inputSha256,
+      });
       await saveAliasMetadata(metadata);
 
       console.log();
@@ -327,10 +889,25 @@ bin("droid-patch", "CLI tool to patch droid binary with various modifications")
         console.log("Debug mode:");
         console.log(styleText("gray", "  export DROID_SEARCH_DEBUG=1"));
       }
-      return;
+      finish("patch", EXIT_CODES.SUCCESS, {
+        dryRun: false,
+        inputPath: path,
+        outputPath: wrapperScript,
+        aliasPath: aliasResult.aliasPath ?? null,
+        patches: [],
+        metadata,
+      });
     }
 
-    if (!isCustom && !skipLogin && !apiBase && !websearch && !reasoningEffort && !noTelemetry) {
+    if (
+      !isCustom &&
+      !skipLogin &&
+      !apiBase &&
+      !websearch &&
+      !reasoningEffort &&
+      !noTelemetry &&
+      customPatches.length === 0
+    ) {
       console.log(styleText("yellow", "No patch flags specified. Available patches:"));
       console.log(styleText("gray", "  --is-custom         Patch isCustom for custom models"));
       console.log(
@@ -352,6 +929,9 @@ bin("droid-patch", "CLI tool to patch droid binary with various modifications")
       console.log(
         styleText("gray", "  --standalone        Standalone mode: mock non-LLM Factory APIs"),
       );
+      console.log(
+        styleText("gray", "  --patch-file        Apply patch definitions from a JSON/YAML file"),
+      );
       console.log();
       console.log("Usage examples:");
       console.log(styleText("cyan", "  npx droid-patch --is-custom droid-custom"));
@@ -366,7 +946,7 @@ bin("droid-patch", "CLI tool to patch droid binary with various modifications")
           "  npx droid-patch --websearch --api-base=http://127.0.0.1:20002 my-droid",
         ),
       );
-      process.exit(1);
+      finish("patch", EXIT_CODES.USAGE, {}, ["No patch flags specified"]);
     }
 
     if (!alias && !dryRun) {
@@ -377,7 +957,7 @@ bin("droid-patch", "CLI tool to patch droid binary with various modifications")
           "Usage: droid-patch [--is-custom] [--skip-login] [-o <dir>] <alias-name>",
         ),
       );
-      process.exit(1);
+      finish("patch", EXIT_CODES.USAGE, {}, ["Alias name is required"]);
     }
 
     console.log(styleText("cyan", "═".repeat(60)));
@@ -385,197 +965,18 @@ bin("droid-patch", "CLI tool to patch droid binary with various modifications")
     console.log(styleText("cyan", "═".repeat(60)));
     console.log();
 
-    const patches: Patch[] = [];
-    if (isCustom) {
-      patches.push({
-        name: "isCustom",
-        description: "Change isCustom:!0 to isCustom:!1",
-        pattern: Buffer.from("isCustom:!0"),
-        replacement: Buffer.from("isCustom:!1"),
-      });
-    }
-
-    // Add skip-login patch: replace process.env.FACTORY_API_KEY with a fixed fake key
-    // "process.env.FACTORY_API_KEY" is 27 chars, we replace with "fk-droid-patch-skip-00000" (25 chars + quotes = 27)
-    if (skipLogin) {
-      patches.push({
-        name: "skipLogin",
-        description: 'Replace process.env.FACTORY_API_KEY with "fk-droid-patch-skip-00000"',
-        pattern: Buffer.from("process.env.FACTORY_API_KEY"),
-        replacement: Buffer.from('"fk-droid-patch-skip-00000"'),
-      });
-    }
-
-    // Add api-base patch: replace the Factory API base URL
-    // Original: "https://api.factory.ai" (22 chars)
-    // We need to pad the replacement URL to be exactly 22 chars
-    // Note: When --websearch is used, --api-base sets the forward target instead of binary patching
-    if (apiBase && !websearch) {
-      const originalUrl = "https://api.factory.ai";
-      const originalLength = originalUrl.length; // 22 chars
-
-      // Validate and normalize the URL
-      let normalizedUrl = apiBase.replace(/\/+$/, ""); // Remove trailing slashes
-
-      if (normalizedUrl.length > originalLength) {
-        console.log(
-          styleText("red", `Error: API base URL must be ${originalLength} characters or less`),
-        );
-        console.log(
-          styleText("gray", `  Your URL: "${normalizedUrl}" (${normalizedUrl.length} chars)`),
-        );
-        console.log(styleText("gray", `  Maximum:  ${originalLength} characters`));
-        console.log();
-        console.log(styleText("yellow", "Tip: Use a shorter URL or set up a local redirect."));
-        console.log(styleText("gray", "  Examples:"));
-        console.log(styleText("gray", "    http://127.0.0.1:3000 (19 chars)"));
-        console.log(styleText("gray", "    http://localhost:80  (19 chars)"));
-        process.exit(1);
-      }
-
-      // Pad the URL with spaces at the end to match original length
-      // Note: trailing spaces in URL are generally ignored
-      const paddedUrl = normalizedUrl.padEnd(originalLength, " ");
-
-      patches.push({
-        name: "apiBase",
-        description: `Replace Factory API URL with "${normalizedUrl}"`,
-        pattern: Buffer.from(originalUrl),
-        replacement: Buffer.from(paddedUrl),
-      });
-    }
-
-    // Add reasoning-effort patch: set custom models to use "high" reasoning
-    // Also modify UI conditions to show reasoning selector for custom models
-    if (reasoningEffort) {
-      // Expand custom-model supported reasoning efforts to include "xhigh" in the UI.
-      //
-      // We can't freely change embedded JS string lengths without corrupting the bundle, so rewrites must
-      // preserve byte length. We avoid whitespace padding by expanding supportedReasoningEfforts to 3 values.
-      //
-      // Targets:
-      // - Custom model list builder (maps C => { ... supportedReasoningEfforts:["none"] ... })
-      // - Custom model resolver (t9 / getTuiModelConfig)
-      patches.push({
-        name: "reasoningEffortSupportedXHighList",
-        description: 'Enable ["low","high","xhigh"] in UI for custom model list',
-        pattern: Buffer.from(""), // Not used when regexPattern is set
-        replacement: Buffer.from(""),
-        regexPattern:
-          /id:([A-Za-z$_])\.id,displayName:\1\.displayName,shortDisplayName:\1\.(?:displayName|id),modelProvider:\1\.provider\s*,supportedReasoningEfforts:\["(?:none|high)"(?:,"xhigh")?\],defaultReasoningEffort:"(?:none|high)",isCustom:!([01]),noImageSupport:(?:\1\.noImageSupport|!1)/g,
-        regexReplacement:
-          'id:$1.id,displayName:$1.displayName,shortDisplayName:$1.displayName,modelProvider:$1.provider,supportedReasoningEfforts:["low","high","xhigh"],defaultReasoningEffort:"high",isCustom:!$2,noImageSupport:!1',
-        alreadyPatchedRegexPattern:
-          /id:([A-Za-z$_])\.id,displayName:\1\.displayName,shortDisplayName:\1\.displayName,modelProvider:\1\.provider,supportedReasoningEfforts:\["low","high","xhigh"\],defaultReasoningEffort:"high",isCustom:!([01]),noImageSupport:!1/g,
-      });
-
-      patches.push({
-        name: "reasoningEffortSupportedXHighResolver",
-        description: 'Enable ["low","high","xhigh"] in UI for custom model config resolver',
-        pattern: Buffer.from(""), // Not used when regexPattern is set
-        replacement: Buffer.from(""),
-        regexPattern:
-          /id:([A-Za-z$_])\.model,modelProvider:\1\.provider\s*,displayName:([A-Za-z$_]),shortDisplayName:\2,supportedReasoningEfforts:\["(?:none|high)"(?:,"xhigh")?\],defaultReasoningEffort:"(?:none|high)",isCustom:!([01]),noImageSupport:(?:\1\.noImageSupport|!1)/g,
-        regexReplacement:
-          'id:$1.model,modelProvider:$1.provider,displayName:$2,shortDisplayName:$2,supportedReasoningEfforts:["low","high","xhigh"],defaultReasoningEffort:"high",isCustom:!$3,noImageSupport:!1',
-        alreadyPatchedRegexPattern:
-          /id:([A-Za-z$_])\.model,modelProvider:\1\.provider,displayName:([A-Za-z$_]),shortDisplayName:\2,supportedReasoningEfforts:\["low","high","xhigh"\],defaultReasoningEffort:"high",isCustom:!([01]),noImageSupport:!1/g,
-      });
-
-      // ["none"] is 8 chars, ["high"] is 8 chars - perfect match!
-      patches.push({
-        name: "reasoningEffortSupported",
-        description:
-          'Fallback: Change supportedReasoningEfforts:["none"] to ["high"] (for legacy/custom: configs)',
-        pattern: Buffer.from('supportedReasoningEfforts:["none"]'),
-        replacement: Buffer.from('supportedReasoningEfforts:["high"]'),
-      });
-
-      // "none" is 4 chars, "high" is 4 chars - perfect match!
-      patches.push({
-        name: "reasoningEffortDefault",
-        description: 'Fallback: Change defaultReasoningEffort:"none" to "high"',
-        pattern: Buffer.from('defaultReasoningEffort:"none"'),
-        replacement: Buffer.from('defaultReasoningEffort:"high"'),
-      });
-
-      // Change UI condition from length>1 to length>0
-      // This allows custom models with single reasoning option to show the selector
-      patches.push({
-        name: "reasoningEffortUIShow",
-        description: "Change supportedReasoningEfforts.length>1 to length>0",
-        pattern: Buffer.from("supportedReasoningEfforts.length>1"),
-        replacement: Buffer.from("supportedReasoningEfforts.length>0"),
-      });
-
-      // Change UI condition from length<=1 to length<=0
-      // This enables the reasoning setting in /settings menu for custom models
-      patches.push({
-        name: "reasoningEffortUIEnable",
-        description: "Change supportedReasoningEfforts.length<=1 to length<=0",
-        pattern: Buffer.from("supportedReasoningEfforts.length<=1"),
-        replacement: Buffer.from("supportedReasoningEfforts.length<=0"),
-      });
+    // Validate --api-base before building the patch list so we can print a helpful message
+    checkApiBaseLength("patch", patchFlags);
 
-      // Bypass reasoning effort validation to allow settings.json override
-      // This allows "xhigh" in settings.json to work even though default is "high"
-      // Pattern varies by version:
-      //   v0.39.0+: T!=="none"&&T!=="off"&&!X.supportedReasoningEfforts.includes(T)
-      //   v0.43.0+: T!=="none"&&T!=="off"&&!R.reasoningEffort.supported.includes(T)
-      //   v0.49.0+: !this.validateReasoningEffort(D,H.reasoningEffort)
-      // Using regex to match any single-letter minified variable and preserve property path
-      // Logic: && 0 && makes entire condition always false, bypassing validation
-      patches.push({
-        name: "reasoningEffortValidationBypass",
-        description: "Bypass reasoning effort validation (allows xhigh in settings.json)",
-        pattern: Buffer.from(""), // Not used when regexPattern is set
-        replacement: Buffer.from(""),
-        // Regex captures:
-        //   $1 = reasoning effort variable (single letter)
-        //   $2 = model/config variable (single letter)
-        //   $3 = property path (supportedReasoningEfforts or reasoningEffort.supported)
-        regexPattern:
-          /([A-Za-z$_])!=="none"&&\1!=="off"&&!([A-Za-z$_])\.(supportedReasoningEfforts|reasoningEffort\.supported)\.includes\(\1\)/g,
-        regexReplacement: '$1!="none"&&$1!="off"&&0&&$2.$3.includes($1)',
-        alreadyPatchedRegexPattern:
-          /([A-Za-z$_])!="none"&&\1!="off"&&0&&([A-Za-z$_])\.(supportedReasoningEfforts|reasoningEffort\.supported)\.includes\(\1\)/g,
-      });
+    if (!existsSync(path)) {
+      console.log(styleText("red", `Error: Droid binary not found at ${path}`));
+      console.log(styleText("gray", "Use -p to specify a different path"));
+      finish("patch", EXIT_CODES.NOT_FOUND, { inputPath: path }, [
+        `Droid binary not found: ${path}`,
+      ]);
     }
 
-    // Add no-telemetry patches: disable telemetry uploads and Sentry error reporting
-    // Strategy:
-    // 1. Break environment variable names so Sentry is never initialized (Q1() returns false)
-    // 2. Invert flushToWeb condition so it returns early without making any fetch request
-    if (noTelemetry) {
-      // Patch 1: Break Sentry environment variable checks
-      // Q1() function checks: VITE_VERCEL_ENV, ENABLE_SENTRY, NEXT_PUBLIC_ENABLE_SENTRY, FACTORY_ENABLE_SENTRY
-      // By changing first letter to X, the env vars will never match, so Q1() returns false
-      // and Sentry is never initialized
-      patches.push({
-        name: "noTelemetrySentryEnv1",
-        description: "Break ENABLE_SENTRY env var check (E->X)",
-        pattern: Buffer.from("ENABLE_SENTRY"),
-        replacement: Buffer.from("XNABLE_SENTRY"),
-      });
-
-      patches.push({
-        name: "noTelemetrySentryEnv2",
-        description: "Break VITE_VERCEL_ENV env var check (V->X)",
-        pattern: Buffer.from("VITE_VERCEL_ENV"),
-        replacement: Buffer.from("XITE_VERCEL_ENV"),
-      });
-
-      // Patch 2: Make flushToWeb always return early to prevent ANY fetch request
-      // Original: if(this.webEvents.length===0)return; // returns only when empty
-      // Changed:  if(!0||this.webEvents.length)return; // !0=true, ALWAYS returns
-      // Result: Function always exits immediately, no telemetry is ever sent
-      patches.push({
-        name: "noTelemetryFlushBlock",
-        description: "Make flushToWeb always return (!0|| = always true)",
-        pattern: Buffer.from("this.webEvents.length===0"),
-        replacement: Buffer.from("!0||this.webEvents.length"),
-      });
-    }
+    const patches = [...buildPatches(patchFlags), ...definitionsToPatches(customPatches)];
 
     try {
       const result = await patchDroid({
@@ -585,7 +986,15 @@ bin("droid-patch", "CLI tool to patch droid binary with various modifications")
         dryRun,
         backup,
         verbose,
+        silent: isJsonMode(),
       });
+      const exitCode = patchExitCode(result);
+      const report = {
+        dryRun,
+        inputPath: path,
+        patches: patchResultsToJson(result.results),
+      };
+      const errors = patchErrors(result);
 
       if (dryRun) {
         console.log();
@@ -595,7 +1004,7 @@ bin("droid-patch", "CLI tool to patch droid binary with various modifications")
         console.log();
         console.log(styleText("gray", "To apply the patches, run without --dry-run:"));
         console.log(styleText("cyan", `  npx droid-patch --is-custom ${alias || "<alias-name>"}`));
-        process.exit(0);
+        finish("patch", exitCode, report, errors);
       }
 
       // If -o is specified, just output the file without creating alias
@@ -606,24 +1015,41 @@ bin("droid-patch", "CLI tool to patch droid binary with various modifications")
         console.log(styleText("green", "═".repeat(60)));
         console.log();
         console.log(styleText("white", `Patched binary saved to: ${result.outputPath}`));
-        process.exit(0);
+        finish("patch", exitCode, { ...report, outputPath: result.outputPath }, errors);
       }
 
+      let aliasPath: string | undefined;
+      let metadata: AliasMetadata | undefined;
       if (result.success && result.outputPath && alias) {
         console.log();
 
-        let execTargetPath = result.outputPath;
+        // Aliases with the same droid binary and patches share one stored copy
+        const inputSha256 = result.inputSha256 ?? (await sha256File(path));
+        const stored = await storeBinary(binaryStoreKey(inputSha256, patches), result.outputPath, {
+          inputSha256,
+          patchSetHash: patchSetHash(patches),
+          patches: patches.map((p) => p.name),
+          droidVersion: getDroidVersion(path),
+        });
+        let execTargetPath = stored.path;
+        // The binary the alias ends up running, hashed once it is in place
+        let storedBinaryPath = stored.path;
 
         if (websearch || websearchProxy) {
+          // Keep the patched binary under ~/.droid-patch/bins (where `update` writes it)
+          // instead of pointing the wrapper at the temporary <droid>.patched output
+          const binsDir = join(homedir(), ".droid-patch", "bins");
+          execTargetPath = join(binsDir, `${alias}-patched`);
+          await linkBinary(stored.path, execTargetPath);
+          storedBinaryPath = execTargetPath;
+
           const proxyDir = join(homedir(), ".droid-patch", "proxy");
-          const { wrapperScript } = await createWebSearchUnifiedFiles(
+          const { wrapperScript } = (await createWebSearchFilesForFlags(
             proxyDir,
             execTargetPath,
             alias,
-            websearchProxy ? undefined : websearchTarget, // websearchProxy reads from settings.json at runtime
-            standalone,
-            websearchProxy, // useNativeProvider flag
-          );
+            patchFlags,
+          ))!;
           execTargetPath = wrapperScript;
 
           console.log();
@@ -644,30 +1070,22 @@ bin("droid-patch", "CLI tool to patch droid binary with various modifications")
         if (websearch || websearchProxy) {
           aliasResult = await createAliasForWrapper(execTargetPath, alias, verbose);
         } else {
-          aliasResult = await createAlias(result.outputPath, alias, verbose);
+          aliasResult = await createAlias(stored.path, alias, verbose);
+          storedBinaryPath = aliasResult.binaryPath;
         }
 
         // Save metadata for update command
         const droidVersion = getDroidVersion(path);
-        const metadata = createMetadata(
-          alias,
-          path,
-          {
-            isCustom: !!isCustom,
-            skipLogin: !!skipLogin,
-            apiBase: apiBase || null,
-            websearch: !!websearch,
-            websearchProxy: !!websearchProxy,
-            reasoningEffort: !!reasoningEffort,
-            noTelemetry: !!noTelemetry,
-            standalone: !!standalone,
-          },
-          {
-            droidPatchVersion: version,
-            droidVersion,
-            aliasPath: aliasResult.aliasPath,
-          },
-        );
+        aliasPath = aliasResult.aliasPath;
+        metadata = createMetadata(alias, path, patchFlags, {
+          droidPatchVersion: version,
+          droidVersion,
+          aliasPath,
+          customPatches,
+          inputSha256: result.inputSha256,
+          // createAlias re-signs a copy on macOS, so hash the file the alias runs
+          outputSha256: await sha256File(storedBinaryPath),
+        });
         await saveAliasMetadata(metadata);
       }
 
@@ -678,56 +1096,85 @@ bin("droid-patch", "CLI tool to patch droid binary with various modifications")
         console.log(styleText("green", "═".repeat(60)));
       }
 
-      process.exit(result.success ? 0 : 1);
+      finish(
+        "patch",
+        exitCode,
+        {
+          ...report,
+          outputPath: result.outputPath ?? null,
+          aliasPath: aliasPath ?? null,
+          ...(metadata ? { metadata } : {}),
+        },
+        errors,
+      );
     } catch (error) {
       console.error(styleText("red", `Error: ${(error as Error).message}`));
       if (verbose) console.error((error as Error).stack);
-      process.exit(1);
+      finish("patch", EXIT_CODES.ERROR, {}, [(error as Error).message]);
     }
   })
-  .command("list", "List all droid-patch aliases")
-  .action(async () => {
-    await listAliases();
+  .command("list", "List droid-patch aliases (optionally filtered and sorted)")
+  .option("--patch-version <version>", "Only aliases created by this droid-patch version")
+  .option("--droid-version <version>", "Only aliases for this droid version")
+  .option("--flag <flag...>", FLAG_FILTER_HELP)
+  .option("--match <mode>", "Combine --flag conditions with all (AND, default) or any (OR)")
+  .option("--stale", "Only aliases patched from a droid version other than the installed one")
+  .option("-p, --path <path>", "droid binary to compare against for --stale")
+  .option("--sort <key>", "Sort by name, created or updated (newest first)")
+  .option("--compact", "Print one table row per alias")
+  .action(async (options) => {
+    if (options.json) enableJsonMode();
+    const filter = readAliasFilter("list", options);
+    const sort = options.sort as AliasSortKey | undefined;
+    if (sort && !["name", "created", "updated"].includes(sort)) {
+      console.log(styleText("red", `Error: Invalid --sort value: ${sort}`));
+      console.log(styleText("gray", "Allowed: name, created, updated"));
+      finish("list", EXIT_CODES.USAGE, {}, [`Invalid --sort value: ${sort}`]);
+    }
+
+    // The installed version marks stale aliases in the table, and is required by --stale
+    let installedDroidVersion: string | undefined;
+    if (options.stale || options.compact) {
+      const droidPath = (options.path as string) || findDefaultDroidPath();
+      installedDroidVersion = existsSync(droidPath) ? getDroidVersion(droidPath) : undefined;
+      if (options.stale && !installedDroidVersion) {
+        console.log(styleText("red", `Error: Cannot determine the droid version at ${droidPath}`));
+        console.log(styleText("gray", "Use -p to specify the installed droid binary"));
+        finish("list", EXIT_CODES.NOT_FOUND, { droidPath }, [
+          `Cannot determine the droid version at ${droidPath}`,
+        ]);
+      }
+    }
+
+    const listOptions = {
+      filter: { ...filter, staleAgainst: options.stale ? installedDroidVersion : undefined },
+      sort,
+      compact: !!options.compact,
+      installedDroidVersion,
+    };
+    if (isJsonMode()) {
+      finish("list", EXIT_CODES.SUCCESS, {
+        ...(await queryAliases(listOptions)),
+        ...(installedDroidVersion ? { installedDroidVersion } : {}),
+      });
+    }
+    await listAliases(listOptions);
   })
   .command("remove", "Remove alias(es) by name or filter")
   .argument("[alias-or-path]", "Alias name or file path to remove")
   .option("--patch-version <version>", "Remove aliases created by this droid-patch version")
   .option("--droid-version <version>", "Remove aliases for this droid version")
-  .option(
-    "--flag <flag>",
-    "Remove aliases with this flag (is-custom, skip-login, websearch, api-base, reasoning-effort, disable-telemetry, standalone)",
-  )
+  .option("--flag <flag...>", FLAG_FILTER_HELP)
+  .option("--match <mode>", "Combine --flag conditions with all (AND, default) or any (OR)")
+  .option("--dry-run", "Show what would be removed without removing anything")
   .action(async (options, args) => {
     const target = args?.[0] as string | undefined;
-    const patchVersion = options["patch-version"] as string | undefined;
-    const droidVersion = options["droid-version"] as string | undefined;
-    const flagRaw = options.flag as string | undefined;
-    let flag: FilterFlag | undefined;
-    if (flagRaw) {
-      const allowedFlags: FilterFlag[] = [
-        "is-custom",
-        "skip-login",
-        "websearch",
-        "api-base",
-        "reasoning-effort",
-        "disable-telemetry",
-        "standalone",
-      ];
-      if (!allowedFlags.includes(flagRaw as FilterFlag)) {
-        console.error(styleText("red", `Error: Invalid --flag value: ${flagRaw}`));
-        console.error(styleText("gray", `Allowed: ${allowedFlags.join(", ")}`));
-        process.exit(1);
-      }
-      flag = flagRaw as FilterFlag;
-    }
+    const filter = readAliasFilter("remove", options);
+    const dryRun = !!options["dry-run"];
 
     // If filter options are provided, use filter mode
-    if (patchVersion || droidVersion || flag) {
-      await removeAliasesByFilter({
-        patchVersion,
-        droidVersion,
-        flags: flag ? [flag] : undefined,
-      });
+    if (filter.patchVersion || filter.droidVersion || filter.flags) {
+      await removeAliasesByFilter(filter, { dryRun });
       return;
     }
 
@@ -747,6 +1194,10 @@ bin("droid-patch", "CLI tool to patch droid binary with various modifications")
       // It's a file path, delete directly
       const { unlink } = await import("node:fs/promises");
       try {
+        if (dryRun) {
+          console.log(styleText("green", `[*] Would remove: ${target}`));
+          return;
+        }
         await unlink(target);
         console.log(styleText("green", `[*] Removed: ${target}`));
       } catch (error) {
@@ -755,7 +1206,7 @@ bin("droid-patch", "CLI tool to patch droid binary with various modifications")
       }
     } else {
       // It's an alias name
-      await removeAlias(target);
+      await removeAlias(target, { dryRun });
     }
   })
   .command("version", "Print droid-patch version")
@@ -763,373 +1214,1094 @@ bin("droid-patch", "CLI tool to patch droid binary with various modifications")
     console.log(`droid-patch v${version}`);
   })
   .command("clear", "Remove all droid-patch aliases and related files")
-  .action(async () => {
-    await clearAllAliases();
+  .option("--patch-version <version>", "Only remove aliases created by this droid-patch version")
+  .option("--droid-version <version>", "Only remove aliases for this droid version")
+  .option("--flag <flag...>", FLAG_FILTER_HELP)
+  .option("--match <mode>", "Combine --flag conditions with all (AND, default) or any (OR)")
+  .option("--dry-run", "Show what would be removed without removing anything")
+  .action(async (options) => {
+    const filter = readAliasFilter("clear", options);
+    const dryRun = !!options["dry-run"];
+
+    // With filters, only the matching aliases are removed and shared files are kept
+    if (filter.patchVersion || filter.droidVersion || filter.flags) {
+      await removeAliasesByFilter(filter, { dryRun });
+      return;
+    }
+    await clearAllAliases({ dryRun });
   })
-  .command("update", "Update aliases with latest droid binary")
-  .argument("[alias]", "Specific alias to update (optional, updates all if not specified)")
-  .option("--dry-run", "Preview without making changes")
-  .option("-p, --path <path>", "Path to new droid binary")
+  .command("replace", "Patch the installed droid binary in place (keeps a backup of the original)")
+  .option("-p, --path <path>", "Path to the droid binary to replace")
+  .option("--dry-run", "Verify patches without replacing the binary")
   .option("-v, --verbose", "Enable verbose output")
-  .action(async (options, args) => {
-    const aliasName = args?.[0] as string | undefined;
+  .action(async (options) => {
+    if (options.json) enableJsonMode();
+    const patchFlags = readPatchFlags(options);
     const dryRun = options["dry-run"] as boolean;
-    const newBinaryPath = (options.path as string) || findDefaultDroidPath();
+    const path = (options.path as string) || findDefaultDroidPath();
     const verbose = options.verbose as boolean;
 
-    console.log(styleText("cyan", "═".repeat(60)));
-    console.log(styleText(["cyan", "bold"], "  Droid-Patch Update"));
-    console.log(styleText("cyan", "═".repeat(60)));
-    console.log();
-
-    // Verify the new binary exists
-    if (!existsSync(newBinaryPath)) {
-      console.log(styleText("red", `Error: Droid binary not found at ${newBinaryPath}`));
-      console.log(styleText("gray", "Use -p to specify a different path"));
-      process.exit(1);
+    let customPatches: PatchDefinition[] = [];
+    try {
+      customPatches = await loadPatchFiles(toArray(options["patch-file"]));
+    } catch (error) {
+      console.log(styleText("red", `Error: ${(error as Error).message}`));
+      finish("replace", EXIT_CODES.USAGE, {}, [(error as Error).message]);
     }
 
-    // Get aliases to update
-    let metaList: Awaited<ReturnType<typeof loadAliasMetadata>>[];
-    if (aliasName) {
-      const meta = await loadAliasMetadata(aliasName);
-      if (!meta) {
-        console.log(styleText("red", `Error: No metadata found for alias "${aliasName}"`));
-        console.log(
-          styleText("gray", "This alias may have been created before update tracking was added."),
-        );
-        console.log(styleText("gray", "Remove and recreate the alias to enable update support."));
-        process.exit(1);
-      }
-      metaList = [meta];
-    } else {
-      metaList = await listAllMetadata();
-      if (metaList.length === 0) {
-        console.log(styleText("yellow", "No aliases with metadata found."));
-        console.log(styleText("gray", "Create aliases with droid-patch to enable update support."));
-        process.exit(0);
-      }
+    if (patchFlags.websearch || patchFlags.websearchProxy || patchFlags.standalone) {
+      console.log(
+        styleText("red", "Error: WebSearch and standalone modes need an alias and a wrapper"),
+      );
+      console.log(
+        styleText("gray", "Create an alias instead: npx droid-patch --websearch <alias>"),
+      );
+      finish("replace", EXIT_CODES.USAGE, {}, [
+        "WebSearch and standalone modes cannot replace droid in place",
+      ]);
     }
 
-    console.log(styleText("white", `Using droid binary: ${newBinaryPath}`));
-    console.log(styleText("white", `Found ${metaList.length} alias(es) to update`));
-    if (dryRun) {
-      console.log(styleText("blue", "(DRY RUN - no changes will be made)"));
+    if (!hasBinaryPatches(patchFlags) && customPatches.length === 0) {
+      console.log(styleText("red", "Error: No patch flags specified"));
+      console.log(styleText("gray", "Usage: npx droid-patch replace --is-custom [--skip-login]"));
+      finish("replace", EXIT_CODES.USAGE, {}, ["No patch flags specified"]);
     }
-    console.log();
 
-    let successCount = 0;
-    let failCount = 0;
+    checkApiBaseLength("replace", patchFlags);
 
-    for (const meta of metaList) {
-      if (!meta) continue;
+    if (!existsSync(path)) {
+      console.log(styleText("red", `Error: Droid binary not found at ${path}`));
+      console.log(styleText("gray", "Use -p to specify a different path"));
+      finish("replace", EXIT_CODES.NOT_FOUND, { droidPath: path }, [
+        `Droid binary not found: ${path}`,
+      ]);
+    }
 
-      console.log(styleText("cyan", `─`.repeat(40)));
-      console.log(styleText("white", `Updating: ${styleText(["cyan", "bold"], meta.name)}`));
-      console.log(styleText("gray", `  Patches: ${formatPatches(meta.patches)}`));
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log(styleText(["cyan", "bold"], "  Replace Droid In Place"));
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log();
 
-      if (dryRun) {
-        console.log(styleText("blue", `  [DRY RUN] Would re-apply patches`));
-        successCount++;
+    try {
+      const { result, replacement } = await replaceInPlace({
+        droidPath: path,
+        patchFlags,
+        customPatches,
+        dryRun,
+        verbose,
+      });
+      finish(
+        "replace",
+        patchExitCode(result),
+        {
+          dryRun,
+          droidPath: path,
+          patches: patchResultsToJson(result.results),
+          replacement: replacement ?? null,
+        },
+        patchErrors(result),
+      );
+    } catch (error) {
+      console.error(styleText("red", `Error: ${(error as Error).message}`));
+      if (verbose) console.error((error as Error).stack);
+      finish("replace", EXIT_CODES.ERROR, { droidPath: path }, [(error as Error).message]);
+    }
+  })
+  .command("restore", "Restore the original droid binary replaced by `replace`")
+  .argument("[version]", "droid version or hash of the backup to restore (default: most recent)")
+  .option("-p, --path <path>", "Path of the droid binary to restore")
+  .action(async (options, args) => {
+    if (options.json) enableJsonMode();
+    const label = args?.[0] as string | undefined;
+    const replacement = await loadReplacementMetadata();
+    const path = (options.path as string) || replacement?.originalPath || findDefaultDroidPath();
+
+    const restored = await restoreOriginal(path, label);
+    if (!restored) {
+      finish("restore", EXIT_CODES.NOT_FOUND, { droidPath: path, backups: await listBackups() }, [
+        label ? `No backup found for ${label}` : "No backup found",
+      ]);
+    }
+
+    if (replacement?.originalPath === path) {
+      await removeReplacementMetadata();
+    }
+    finish("restore", EXIT_CODES.SUCCESS, { droidPath: path, version: label ?? null });
+  })
+  .command("backups", "Manage backups of original droid binaries (list, restore, prune)")
+  .argument("[action]", "list (default), restore <version|hash> or prune --keep <n>")
+  .argument("[ref]", "droid version or backup hash to restore")
+  .option("--keep <n>", "Number of most recent backups to keep when pruning")
+  .option("-p, --path <path>", "Where to restore the backup (default: the path it was taken from)")
+  .option("--dry-run", "Show which backups prune would remove")
+  .action(async (options, args) => {
+    if (options.json) enableJsonMode();
+    const action = (args?.[0] as string | undefined) ?? "list";
+    const ref = args?.[1] as string | undefined;
+
+    if (action === "list") {
+      const backups = await listBackups();
+      printBackups(backups);
+      finish("backups", EXIT_CODES.SUCCESS, { action, backupsDir: getBackupsDir(), backups });
+    }
+
+    if (action === "restore") {
+      if (!ref) {
+        console.log(styleText("red", "Error: Backup version or hash required"));
+        console.log(styleText("gray", "Usage: npx droid-patch backups restore <version|hash>"));
+        finish("backups", EXIT_CODES.USAGE, { action }, ["Backup version or hash required"]);
+      }
+      let entry: BackupEntry | null;
+      try {
+        entry = await findBackup(ref);
+      } catch (error) {
+        console.log(styleText("red", `Error: ${(error as Error).message}`));
+        finish("backups", EXIT_CODES.USAGE, { action }, [(error as Error).message]);
+      }
+      if (!entry) {
+        console.log(styleText("red", `Error: No backup found for ${ref}`));
+        console.log(
+          styleText("gray", "Run 'npx droid-patch backups list' to see available backups"),
+        );
+        finish("backups", EXIT_CODES.NOT_FOUND, { action }, [`No backup found for ${ref}`]);
+      }
+
+      const path = (options.path as string) || entry.sourcePath;
+      await restoreOriginal(path, entry.sha256);
+      const replacement = await loadReplacementMetadata();
+      if (replacement?.originalPath === path) {
+        await removeReplacementMetadata();
+      }
+      finish("backups", EXIT_CODES.SUCCESS, { action, droidPath: path, backup: entry });
+    }
+
+    if (action === "prune") {
+      const keep = Number(options.keep);
+      if (options.keep === undefined || !Number.isInteger(keep) || keep < 0) {
+        console.log(styleText("red", "Error: --keep <n> is required (a non-negative number)"));
+        console.log(styleText("gray", "Usage: npx droid-patch backups prune --keep 3"));
+        finish("backups", EXIT_CODES.USAGE, { action }, ["--keep <n> is required"]);
+      }
+      const dryRun = options["dry-run"] as boolean;
+      // The backup an in-place replacement would be restored from is never pruned
+      const replacement = await loadReplacementMetadata();
+      const protect = replacement?.inputSha256 ? [replacement.inputSha256] : [];
+      const removed = await pruneBackups(keep, { dryRun, protect });
+
+      if (removed.length === 0) {
+        console.log(styleText("gray", "Nothing to prune."));
+      }
+      for (const entry of removed) {
+        const label = entry.droidVersion ?? "unknown version";
+        const verb = dryRun ? "Would remove" : "Removed";
+        console.log(styleText("white", `[*] ${verb}: ${label} (${entry.sha256.slice(0, 12)})`));
+      }
+      finish("backups", EXIT_CODES.SUCCESS, { action, dryRun: !!dryRun, keep, removed });
+    }
+
+    console.log(styleText("red", `Error: Unknown backups action "${action}"`));
+    console.log(styleText("gray", "Actions: list, restore <version|hash>, prune --keep <n>"));
+    finish("backups", EXIT_CODES.USAGE, { action }, [`Unknown backups action "${action}"`]);
+  })
+  .command("rollback", "Restore an alias to how it was before an update")
+  .argument("<alias>", "Alias to roll back")
+  .option("--to <generation>", "Generation to restore (default: the most recent)")
+  .option("--list", "List the alias's saved generations")
+  .option("--force", "Restore even if the saved binary does not match its SHA-256")
+  .action(async (options, args) => {
+    if (options.json) enableJsonMode();
+    const aliasName = args?.[0] as string;
+    const toRaw = options.to as string | undefined;
+
+    if (options.list) {
+      const generations = await listGenerations(aliasName);
+      if (generations.length === 0) {
+        console.log(styleText("yellow", `No generations saved for alias "${aliasName}"`));
+      }
+      for (const g of generations) {
+        const droid = g.droidVersion ? `droid ${g.droidVersion}` : "droid version unknown";
+        console.log(
+          `  ${styleText("green", String(g.generation).padStart(3))}  ${droid.padEnd(22)} ${styleText("gray", g.createdAt)}`,
+        );
+      }
+      finish("rollback", EXIT_CODES.SUCCESS, {
+        alias: aliasName,
+        generations: generations.map(({ metadata: _metadata, ...g }) => g),
+      });
+    }
+
+    const to = toRaw === undefined ? undefined : Number(toRaw);
+    if (to !== undefined && !Number.isInteger(to)) {
+      console.log(styleText("red", `Error: Invalid --to value: ${toRaw}`));
+      finish("rollback", EXIT_CODES.USAGE, { alias: aliasName }, [`Invalid --to value: ${toRaw}`]);
+    }
+
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log(styleText(["cyan", "bold"], "  Rollback Alias"));
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log();
+
+    const generations = await listGenerations(aliasName);
+    if (generations.length === 0) {
+      console.log(styleText("red", `Error: No generations saved for alias "${aliasName}"`));
+      console.log(
+        styleText("gray", "Generations are saved each time `update` re-patches an alias."),
+      );
+      finish("rollback", EXIT_CODES.NOT_FOUND, { alias: aliasName }, [
+        `No generations saved for alias "${aliasName}"`,
+      ]);
+    }
+    if (to !== undefined && !generations.some((g) => g.generation === to)) {
+      const available = generations.map((g) => g.generation).join(", ");
+      console.log(styleText("red", `Error: Generation ${to} not found (available: ${available})`));
+      finish("rollback", EXIT_CODES.NOT_FOUND, { alias: aliasName }, [
+        `Generation ${to} not found`,
+      ]);
+    }
+
+    try {
+      const restored = await rollbackAlias(aliasName, to, { force: !!options.force });
+      const droid = restored.droidVersion ? ` (droid ${restored.droidVersion})` : "";
+      console.log(
+        styleText(
+          "green",
+          `[*] Restored generation ${restored.generation}${droid} of ${aliasName}`,
+        ),
+      );
+      console.log(styleText("gray", `    Saved: ${restored.createdAt}`));
+      finish("rollback", EXIT_CODES.SUCCESS, {
+        alias: aliasName,
+        generation: restored.generation,
+        metadata: restored.metadata,
+      });
+    } catch (error) {
+      console.log(styleText("red", `Error: ${(error as Error).message}`));
+      finish("rollback", EXIT_CODES.ERROR, { alias: aliasName }, [(error as Error).message]);
+    }
+  })
+  .command("edit", "Add or remove patches on an existing alias")
+  .argument("<alias>", "Alias to edit")
+  .option("--add <flag...>", `Flags to turn on (${FILTER_FLAGS.join(", ")})`)
+  .option("--remove <flag...>", "Flags to turn off")
+  .option(
+    "-p, --path <path>",
+    "droid binary to rebuild from (default: the alias's original binary)",
+  )
+  .option("--dry-run", "Show the new flags without rebuilding")
+  .option("-v, --verbose", "Enable verbose output")
+  .action(async (options, args) => {
+    if (options.json) enableJsonMode();
+    const aliasName = args?.[0] as string;
+    const dryRun = !!options["dry-run"];
+    const verbose = !!options.verbose;
+    const toAdd = toArray(options.add).flatMap((v) => v.split(","));
+    const toRemove = toArray(options.remove).flatMap((v) => v.split(","));
+    const apiBase = options["api-base"] as string | undefined;
+
+    const usageError = (message: string): never => {
+      console.log(styleText("red", `Error: ${message}`));
+      finish("edit", EXIT_CODES.USAGE, { alias: aliasName }, [message]);
+    };
+    const invalid = [...toAdd, ...toRemove].filter((f) => !FILTER_FLAGS.includes(f as FilterFlag));
+    if (invalid.length > 0) {
+      usageError(`Unknown flag(s): ${invalid.join(", ")} (allowed: ${FILTER_FLAGS.join(", ")})`);
+    }
+    const both = toAdd.filter((f) => toRemove.includes(f));
+    if (both.length > 0) {
+      usageError(`Cannot both add and remove: ${both.join(", ")}`);
+    }
+    if (toAdd.length === 0 && toRemove.length === 0 && !apiBase) {
+      usageError("Nothing to change: use --add, --remove or --api-base");
+    }
+    if (toAdd.includes("api-base") && !apiBase) {
+      usageError("--add api-base requires --api-base <url>");
+    }
+    if (toRemove.includes("api-base") && apiBase) {
+      usageError("Cannot use --api-base with --remove api-base");
+    }
+
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log(styleText(["cyan", "bold"], "  Edit Alias"));
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log();
+
+    const meta = await loadAliasMetadata(aliasName);
+    if (!meta) {
+      console.log(styleText("red", `Error: No metadata found for alias "${aliasName}"`));
+      console.log(styleText("gray", "Remove and recreate the alias to enable editing."));
+      finish("edit", EXIT_CODES.NOT_FOUND, { alias: aliasName }, [
+        `No metadata found for alias "${aliasName}"`,
+      ]);
+    }
+
+    const before = meta.patches;
+    const patches = structuredClone(meta.patches);
+    const keys: Record<Exclude<FilterFlag, "api-base">, keyof PatchFlags> = {
+      "is-custom": "isCustom",
+      "skip-login": "skipLogin",
+      websearch: "websearch",
+      "websearch-proxy": "websearchProxy",
+      "reasoning-effort": "reasoningEffort",
+      "disable-telemetry": "noTelemetry",
+      standalone: "standalone",
+    };
+    for (const flag of toRemove as FilterFlag[]) {
+      if (flag === "api-base") {
+        patches.apiBase = null;
+      } else {
+        (patches as Record<string, unknown>)[keys[flag]] = false;
+      }
+    }
+    for (const flag of toAdd as FilterFlag[]) {
+      if (flag !== "api-base") {
+        (patches as Record<string, unknown>)[keys[flag]] = true;
+      }
+    }
+    if (apiBase) patches.apiBase = apiBase;
+    // The two websearch modes are exclusive: adding one switches from the other
+    if (toAdd.includes("websearch")) patches.websearchProxy = false;
+    if (toAdd.includes("websearch-proxy")) patches.websearch = false;
+    if (patches.websearch || patches.websearchProxy) delete patches.proxy;
+    if (toRemove.includes("websearch")) delete patches.proxy;
+
+    console.log(styleText("white", `Alias: ${styleText(["cyan", "bold"], aliasName)}`));
+    console.log(styleText("gray", `  Before: ${formatPatches(before, meta.customPatches)}`));
+    console.log(styleText("white", `  After:  ${formatPatches(patches, meta.customPatches)}`));
+    console.log();
+
+    if (patches.websearch && patches.websearchProxy) {
+      usageError("Cannot use websearch and websearch-proxy together");
+    }
+    checkApiBaseLength("edit", patches);
+    const hasWrapper = patches.websearch || patches.websearchProxy || !!patches.proxy;
+    if (!hasBinaryPatches(patches) && !meta.customPatches?.length && !hasWrapper) {
+      usageError(`No patches left; use \`droid-patch remove ${aliasName}\` instead`);
+    }
+
+    const report = { alias: aliasName, dryRun, before, after: patches };
+    if (JSON.stringify(before) === JSON.stringify(patches)) {
+      console.log(styleText("green", "[*] Nothing changed"));
+      finish("edit", EXIT_CODES.SUCCESS, { ...report, changed: false });
+    }
+    if (dryRun) {
+      console.log(styleText("blue", "[DRY RUN] Would rebuild the alias with the new flags"));
+      finish("edit", EXIT_CODES.SUCCESS, { ...report, changed: true });
+    }
+
+    const droidPath = await unpatchedSource(
+      (options.path as string) || meta.originalBinaryPath,
+      verbose,
+    );
+    if (!existsSync(droidPath)) {
+      console.log(styleText("red", `Error: Droid binary not found at ${droidPath}`));
+      console.log(styleText("gray", "Use -p to specify the droid binary to rebuild from"));
+      finish("edit", EXIT_CODES.NOT_FOUND, { ...report, droidPath }, [
+        `Droid binary not found: ${droidPath}`,
+      ]);
+    }
+    if (meta.inputSha256 && (await sha256File(droidPath)) !== meta.inputSha256) {
+      console.log(styleText("yellow", `[!] ${droidPath} has changed since the alias was built`));
+      console.log(styleText("gray", "    The alias will run the droid version found there now."));
+    }
+
+    try {
+      // Keep the current alias so the edit can be undone with `rollback`
+      const generation = await saveGeneration(meta);
+      const edited: AliasMetadata = { ...meta, patches };
+      const rebuilt = await rebuildAlias(edited, droidPath, verbose);
+      if (!rebuilt.ok) {
+        finish(
+          "edit",
+          EXIT_CODES.PATCH_FAILED,
+          { ...report, droidPath, patches: rebuilt.patches, generation: generation.generation },
+          [rebuilt.error ?? "Failed to apply patches"],
+        );
+      }
+      console.log(styleText("green", `[*] Rebuilt ${aliasName}`));
+      console.log(styleText("gray", `    Undo with: droid-patch rollback ${aliasName}`));
+      finish("edit", EXIT_CODES.SUCCESS, {
+        ...report,
+        changed: true,
+        droidPath,
+        patches: rebuilt.patches,
+        outputPath: rebuilt.outputPath,
+        aliasPath: rebuilt.aliasPath,
+        generation: generation.generation,
+        metadata: edited,
+      });
+    } catch (error) {
+      console.log(styleText("red", `Error: ${(error as Error).message}`));
+      if (verbose) console.error((error as Error).stack);
+      finish("edit", EXIT_CODES.ERROR, { ...report, droidPath }, [(error as Error).message]);
+    }
+  })
+  .command("rename", "Rename an alias (binary, wrapper, link, metadata and generations)")
+  .argument("<old>", "Alias to rename")
+  .argument("<new>", "New alias name")
+  .option("-v, --verbose", "Enable verbose output")
+  .action(async (options, args) => {
+    if (options.json) enableJsonMode();
+    const oldName = args?.[0] as string;
+    const newName = args?.[1] as string;
+    const verbose = !!options.verbose;
+
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log(styleText(["cyan", "bold"], "  Rename Alias"));
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log();
+
+    const report = { from: oldName, to: newName };
+    if (oldName === newName) {
+      console.log(styleText("red", "Error: The new name is the same as the old one"));
+      finish("rename", EXIT_CODES.USAGE, report, ["The new name is the same as the old one"]);
+    }
+    const meta = await loadAliasMetadata(oldName);
+    if (!meta) {
+      console.log(styleText("red", `Error: No metadata found for alias "${oldName}"`));
+      console.log(styleText("gray", "Remove and recreate the alias under the new name instead."));
+      finish("rename", EXIT_CODES.NOT_FOUND, report, [`No metadata found for alias "${oldName}"`]);
+    }
+    await checkNewAliasName("rename", newName);
+
+    try {
+      // Create the new alias completely before removing the old one
+      const renamed = await copyAliasAs(meta, newName, {}, verbose);
+      // Moved before removeAlias, which deletes the old name's generations
+      const generations = await renameGenerations(oldName, renamed);
+      if (verbose && generations > 0) {
+        console.log(styleText("gray", `  Moved ${generations} generation(s) to ${newName}`));
+      }
+      console.log();
+      const removed = await removeAlias(oldName);
+      console.log();
+      console.log(styleText("green", `[*] Renamed ${oldName} to ${newName}`));
+      finish("rename", EXIT_CODES.SUCCESS, {
+        ...report,
+        aliasPath: renamed.aliasPath ?? null,
+        removed,
+        metadata: renamed,
+      });
+    } catch (error) {
+      console.log(styleText("red", `Error: ${(error as Error).message}`));
+      if (verbose) console.error((error as Error).stack);
+      finish("rename", EXIT_CODES.ERROR, report, [(error as Error).message]);
+    }
+  })
+  .command("clone", "Copy an alias under a new name, optionally with a different --api-base")
+  .argument("<src>", "Alias to copy")
+  .argument("<dst>", "Name of the new alias")
+  .option("-p, --path <path>", "droid binary to rebuild from when --api-base changes the binary")
+  .option("-v, --verbose", "Enable verbose output")
+  .action(async (options, args) => {
+    if (options.json) enableJsonMode();
+    const srcName = args?.[0] as string;
+    const dstName = args?.[1] as string;
+    const apiBase = options["api-base"] as string | undefined;
+    const verbose = !!options.verbose;
+
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log(styleText(["cyan", "bold"], "  Clone Alias"));
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log();
+
+    const report = { from: srcName, to: dstName };
+    const meta = await loadAliasMetadata(srcName);
+    if (!meta) {
+      console.log(styleText("red", `Error: No metadata found for alias "${srcName}"`));
+      finish("clone", EXIT_CODES.NOT_FOUND, report, [`No metadata found for alias "${srcName}"`]);
+    }
+    await checkNewAliasName("clone", dstName);
+
+    const patches = structuredClone(meta.patches);
+    if (apiBase) patches.apiBase = apiBase;
+    checkApiBaseLength("clone", patches);
+    // Without websearch the API base is patched into the binary, which then has to be rebuilt
+    const rebuild =
+      patches.apiBase !== meta.patches.apiBase &&
+      (isApiBaseBinaryPatch(meta.patches) || isApiBaseBinaryPatch(patches));
+
+    let droidPath: string | undefined;
+    if (rebuild) {
+      droidPath = await unpatchedSource(
+        (options.path as string) || meta.originalBinaryPath,
+        verbose,
+      );
+      if (!existsSync(droidPath)) {
+        console.log(styleText("red", `Error: Droid binary not found at ${droidPath}`));
+        console.log(styleText("gray", "Use -p to specify the droid binary to rebuild from"));
+        finish("clone", EXIT_CODES.NOT_FOUND, { ...report, droidPath }, [
+          `Droid binary not found: ${droidPath}`,
+        ]);
+      }
+    }
+
+    console.log(styleText("white", `Source: ${styleText(["cyan", "bold"], srcName)}`));
+    console.log(styleText("white", `  Flags: ${formatPatches(patches, meta.customPatches)}`));
+    console.log();
+
+    try {
+      const now = new Date().toISOString();
+      const clone = await copyAliasAs(meta, dstName, { patches, createdAt: now }, verbose);
+      let patchResults: ReturnType<typeof patchResultsToJson> | undefined;
+      if (droidPath) {
+        console.log();
+        console.log(styleText("white", `[*] Rebuilding ${dstName} for ${patches.apiBase}`));
+        const rebuilt = await rebuildAlias(clone, droidPath, verbose);
+        patchResults = rebuilt.patches;
+        if (!rebuilt.ok) {
+          finish(
+            "clone",
+            EXIT_CODES.PATCH_FAILED,
+            { ...report, droidPath, patches: patchResults, metadata: clone },
+            [rebuilt.error ?? "Failed to apply patches"],
+          );
+        }
+      }
+      console.log();
+      console.log(styleText("green", `[*] Cloned ${srcName} to ${dstName}`));
+      finish("clone", EXIT_CODES.SUCCESS, {
+        ...report,
+        rebuilt: !!droidPath,
+        droidPath: droidPath ?? null,
+        patches: patchResults,
+        aliasPath: clone.aliasPath ?? null,
+        metadata: clone,
+      });
+    } catch (error) {
+      console.log(styleText("red", `Error: ${(error as Error).message}`));
+      if (verbose) console.error((error as Error).stack);
+      finish("clone", EXIT_CODES.ERROR, report, [(error as Error).message]);
+    }
+  })
+  .command("export", "Print alias configurations as portable JSON (e.g. > team.json)")
+  .argument("[alias...]", "Aliases to export (default: all aliases with metadata)")
+  .action(async (_options, args) => {
+    const names = (args ?? []) as string[];
+    const all = await listAllMetadata();
+    const missing = names.filter((name) => !all.some((meta) => meta.name === name));
+    if (missing.length > 0) {
+      for (const name of missing) {
+        console.error(styleText("red", `Error: No metadata found for alias "${name}"`));
+      }
+      finish("export", EXIT_CODES.NOT_FOUND);
+    }
+    const selected = names.length > 0 ? all.filter((meta) => names.includes(meta.name)) : all;
+    if (selected.length === 0) {
+      console.error(styleText("yellow", "[!] No aliases with metadata to export"));
+    }
+    // Synchronous write: process.exit() could otherwise cut off a redirected stdout
+    writeSync(1, `${JSON.stringify(exportAliasConfigs(selected, version), null, 2)}\n`);
+    finish("export", EXIT_CODES.SUCCESS);
+  })
+  .command("import", "Recreate aliases from an export file against the local droid binary")
+  .argument("<file>", "File written by `droid-patch export`")
+  .option("--force", "Replace aliases that already exist")
+  .option("-p, --path <path>", "Path to the droid binary")
+  .option("-v, --verbose", "Enable verbose output")
+  .action(async (options, args) => {
+    if (options.json) enableJsonMode();
+    const file = args?.[0] as string;
+    const force = !!options.force;
+    const verbose = !!options.verbose;
+
+    if (!existsSync(file)) {
+      console.log(styleText("red", `Error: File not found: ${file}`));
+      finish("import", EXIT_CODES.NOT_FOUND, { file }, [`File not found: ${file}`]);
+    }
+    let configs: AliasConfig[] = [];
+    try {
+      configs = await readAliasConfigFile(file);
+    } catch (error) {
+      console.log(styleText("red", `Error: ${(error as Error).message}`));
+      finish("import", EXIT_CODES.USAGE, { file }, [(error as Error).message]);
+    }
+
+    const droidPath = await unpatchedSource(
+      (options.path as string) || findDefaultDroidPath(),
+      verbose,
+    );
+    if (!existsSync(droidPath)) {
+      console.log(styleText("red", `Error: Droid binary not found at ${droidPath}`));
+      console.log(styleText("gray", "Use -p to specify the droid binary"));
+      finish("import", EXIT_CODES.NOT_FOUND, { file, droidPath }, [
+        `Droid binary not found: ${droidPath}`,
+      ]);
+    }
+
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log(styleText(["cyan", "bold"], "  Import Aliases"));
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log();
+    console.log(styleText("white", `File: ${file}`));
+    console.log(styleText("white", `Using droid binary: ${droidPath}`));
+    const droidVersion = getDroidVersion(droidPath);
+    if (droidVersion) {
+      console.log(styleText("white", `Droid version: ${droidVersion}`));
+    }
+    console.log();
+
+    const results: Array<{
+      name: string;
+      status: "created" | "replaced" | "skipped" | "failed";
+      reason?: string;
+      patches?: ReturnType<typeof patchResultsToJson>;
+      aliasPath?: string | null;
+      metadata?: AliasMetadata;
+      error?: string;
+    }> = [];
+    const failures: string[] = [];
+
+    for (const config of configs) {
+      console.log(styleText("white", `[*] ${styleText("cyan", config.name)}`));
+      console.log(
+        styleText("gray", `    Flags: ${formatPatches(config.patches, config.customPatches)}`),
+      );
+      if (config.droidVersion && droidVersion && config.droidVersion !== droidVersion) {
+        console.log(
+          styleText(
+            "gray",
+            `    Exported from droid ${config.droidVersion}, building on ${droidVersion}`,
+          ),
+        );
+      }
+
+      const problem = await newAliasNameProblem(config.name, force);
+      if (problem) {
+        const exists = problem.startsWith("Alias ");
+        console.log(
+          styleText(
+            "yellow",
+            `    Skipped: ${problem}${exists ? " (use --force to replace)" : ""}`,
+          ),
+        );
+        results.push({ name: config.name, status: "skipped", reason: problem });
         continue;
       }
 
       try {
-        // Build patch list based on metadata
-        const patches: Patch[] = [];
-
-        if (meta.patches.isCustom) {
-          patches.push({
-            name: "isCustom",
-            description: "Change isCustom:!0 to isCustom:!1",
-            pattern: Buffer.from("isCustom:!0"),
-            replacement: Buffer.from("isCustom:!1"),
-          });
-        }
+        const existing = await loadAliasMetadata(config.name);
+        const replaced =
+          !!existing || (await loadAliasRegistry()).aliases.some((a) => a.name === config.name);
+        // Keep the alias being replaced so the import can be undone with `rollback`
+        if (existing) await saveGeneration(existing);
 
-        if (meta.patches.skipLogin) {
-          patches.push({
-            name: "skipLogin",
-            description: "Replace process.env.FACTORY_API_KEY with fake key",
-            pattern: Buffer.from("process.env.FACTORY_API_KEY"),
-            replacement: Buffer.from('"fk-droid-patch-skip-00000"'),
-          });
+        const meta = createMetadata(config.name, droidPath, config.patches, {
+          droidPatchVersion: version,
+          aliasPath: existing?.aliasPath,
+          customPatches: config.customPatches,
+        });
+        const rebuilt = await rebuildAlias(meta, droidPath, verbose);
+        if (!rebuilt.ok) {
+          const error = rebuilt.error ?? "Failed to apply patches";
+          failures.push(`${config.name}: ${error}`);
+          results.push({ name: config.name, status: "failed", patches: rebuilt.patches, error });
+          continue;
         }
-
-        // Only apply apiBase binary patch when NOT using websearch
-        // When websearch is enabled, apiBase is used as forward target, not binary patch
-        if (meta.patches.apiBase && !meta.patches.websearch) {
-          const originalUrl = "https://api.factory.ai";
-          const paddedUrl = meta.patches.apiBase.padEnd(originalUrl.length, " ");
-          patches.push({
-            name: "apiBase",
-            description: `Replace Factory API URL with "${meta.patches.apiBase}"`,
-            pattern: Buffer.from(originalUrl),
-            replacement: Buffer.from(paddedUrl),
-          });
+        if (!rebuilt.aliasPath) {
+          const aliasResult = await createAliasForWrapper(
+            rebuilt.outputPath!,
+            config.name,
+            verbose,
+          );
+          meta.aliasPath = aliasResult.aliasPath;
+          await saveAliasMetadata(meta);
         }
+        console.log(styleText("green", `    ${replaced ? "Replaced" : "Created"}`));
+        results.push({
+          name: config.name,
+          status: replaced ? "replaced" : "created",
+          patches: rebuilt.patches,
+          aliasPath: meta.aliasPath ?? null,
+          metadata: meta,
+        });
+      } catch (error) {
+        const message = (error as Error).message;
+        console.log(styleText("red", `    ✗ ${message}`));
+        if (verbose) console.error((error as Error).stack);
+        failures.push(`${config.name}: ${message}`);
+        results.push({ name: config.name, status: "failed", error: message });
+      }
+    }
 
-        if (meta.patches.reasoningEffort) {
-          patches.push({
-            name: "reasoningEffortSupportedXHighList",
-            description: 'Enable ["low","high","xhigh"] in UI for custom model list',
-            pattern: Buffer.from(""), // Not used when regexPattern is set
-            replacement: Buffer.from(""),
-            regexPattern:
-              /id:([A-Za-z$_])\.id,displayName:\1\.displayName,shortDisplayName:\1\.(?:displayName|id),modelProvider:\1\.provider\s*,supportedReasoningEfforts:\["(?:none|high)"(?:,"xhigh")?\],defaultReasoningEffort:"(?:none|high)",isCustom:!([01]),noImageSupport:(?:\1\.noImageSupport|!1)/g,
-            regexReplacement:
-              'id:$1.id,displayName:$1.displayName,shortDisplayName:$1.displayName,modelProvider:$1.provider,supportedReasoningEfforts:["low","high","xhigh"],defaultReasoningEffort:"high",isCustom:!$2,noImageSupport:!1',
-            alreadyPatchedRegexPattern:
-              /id:([A-Za-z$_])\.id,displayName:\1\.displayName,shortDisplayName:\1\.displayName,modelProvider:\1\.provider,supportedReasoningEfforts:\["low","high","xhigh"\],defaultReasoningEffort:"high",isCustom:!([01]),noImageSupport:!1/g,
-          });
-          patches.push({
-            name: "reasoningEffortSupportedXHighResolver",
-            description: 'Enable ["low","high","xhigh"] in UI for custom model config resolver',
-            pattern: Buffer.from(""), // Not used when regexPattern is set
-            replacement: Buffer.from(""),
-            regexPattern:
-              /id:([A-Za-z$_])\.model,modelProvider:\1\.provider\s*,displayName:([A-Za-z$_]),shortDisplayName:\2,supportedReasoningEfforts:\["(?:none|high)"(?:,"xhigh")?\],defaultReasoningEffort:"(?:none|high)",isCustom:!([01]),noImageSupport:(?:\1\.noImageSupport|!1)/g,
-            regexReplacement:
-              'id:$1.model,modelProvider:$1.provider,displayName:$2,shortDisplayName:$2,supportedReasoningEfforts:["low","high","xhigh"],defaultReasoningEffort:"high",isCustom:!$3,noImageSupport:!1',
-            alreadyPatchedRegexPattern:
-              /id:([A-Za-z$_])\.model,modelProvider:\1\.provider,displayName:([A-Za-z$_]),shortDisplayName:\2,supportedReasoningEfforts:\["low","high","xhigh"\],defaultReasoningEffort:"high",isCustom:!([01]),noImageSupport:!1/g,
-          });
-          patches.push({
-            name: "reasoningEffortSupported",
-            description:
-              'Fallback: Change supportedReasoningEfforts:["none"] to ["high"] (for legacy/custom: configs)',
-            pattern: Buffer.from('supportedReasoningEfforts:["none"]'),
-            replacement: Buffer.from('supportedReasoningEfforts:["high"]'),
-          });
-          patches.push({
-            name: "reasoningEffortDefault",
-            description: 'Fallback: Change defaultReasoningEffort:"none" to "high"',
-            pattern: Buffer.from('defaultReasoningEffort:"none"'),
-            replacement: Buffer.from('defaultReasoningEffort:"high"'),
-          });
-          patches.push({
-            name: "reasoningEffortUIShow",
-            description: "Change supportedReasoningEfforts.length>1 to length>0",
-            pattern: Buffer.from("supportedReasoningEfforts.length>1"),
-            replacement: Buffer.from("supportedReasoningEfforts.length>0"),
-          });
-          patches.push({
-            name: "reasoningEffortUIEnable",
-            description: "Change supportedReasoningEfforts.length<=1 to length<=0",
-            pattern: Buffer.from("supportedReasoningEfforts.length<=1"),
-            replacement: Buffer.from("supportedReasoningEfforts.length<=0"),
-          });
-          patches.push({
-            name: "reasoningEffortValidationBypass",
-            description: "Bypass reasoning effort validation (allows xhigh in settings.json)",
-            pattern: Buffer.from(""), // Not used when regexPattern is set
-            replacement: Buffer.from(""),
-            regexPattern:
-              /([A-Za-z$_])!=="none"&&\1!=="off"&&!([A-Za-z$_])\.(supportedReasoningEfforts|reasoningEffort\.supported)\.includes\(\1\)/g,
-            regexReplacement: '$1!="none"&&$1!="off"&&0&&$2.$3.includes($1)',
-            alreadyPatchedRegexPattern:
-              /([A-Za-z$_])!="none"&&\1!="off"&&0&&([A-Za-z$_])\.(supportedReasoningEfforts|reasoningEffort\.supported)\.includes\(\1\)/g,
-          });
-        }
+    const count = (status: string) => results.filter((r) => r.status === status).length;
+    console.log();
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log(
+      styleText(
+        failures.length === 0 ? ["green", "bold"] : ["yellow", "bold"],
+        failures.length === 0 ? "  IMPORT COMPLETE" : "  IMPORT FINISHED WITH ERRORS",
+      ),
+    );
+    console.log(
+      styleText(
+        "gray",
+        `  Created: ${count("created")}, Replaced: ${count("replaced")}, Skipped: ${count("skipped")}, Failed: ${failures.length}`,
+      ),
+    );
+    console.log(styleText("cyan", "═".repeat(60)));
 
-        if (meta.patches.noTelemetry) {
-          patches.push({
-            name: "noTelemetrySentryEnv1",
-            description: "Break ENABLE_SENTRY env var check (E->X)",
-            pattern: Buffer.from("ENABLE_SENTRY"),
-            replacement: Buffer.from("XNABLE_SENTRY"),
-          });
-          patches.push({
-            name: "noTelemetrySentryEnv2",
-            description: "Break VITE_VERCEL_ENV env var check (V->X)",
-            pattern: Buffer.from("VITE_VERCEL_ENV"),
-            replacement: Buffer.from("XITE_VERCEL_ENV"),
-          });
-          patches.push({
-            name: "noTelemetryFlushBlock",
-            description: "Make flushToWeb always return (!0|| = always true)",
-            pattern: Buffer.from("this.webEvents.length===0"),
-            replacement: Buffer.from("!0||this.webEvents.length"),
-          });
-        }
+    const imported = count("created") + count("replaced");
+    const exitCode =
+      failures.length === 0
+        ? EXIT_CODES.SUCCESS
+        : imported === 0
+          ? EXIT_CODES.PATCH_FAILED
+          : EXIT_CODES.PARTIAL_FAILURE;
+    finish("import", exitCode, { file, droidPath, force, aliases: results }, failures);
+  })
+  .command("doctor", "Check the droid binary, aliases, metadata and settings for problems")
+  .option("-p, --path <path>", "Path of the droid binary to check")
+  .option("--fix", "Remove dangling aliases and metadata left behind by removed aliases")
+  .action(async (options) => {
+    if (options.json) enableJsonMode();
+    const droidPath = (options.path as string) || findDefaultDroidPath();
+
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log(styleText(["cyan", "bold"], "  Droid-Patch Doctor"));
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log();
 
-        // Determine output path based on whether this is a websearch alias
-        const binsDir = join(homedir(), ".droid-patch", "bins");
-        const outputPath = join(binsDir, `${meta.name}-patched`);
+    const checks = await runDoctor({ droidPath, fix: !!options.fix });
+    printDoctorReport(checks);
+    console.log();
 
-        // Apply patches (only if there are binary patches to apply)
-        if (patches.length > 0) {
-          const result = await patchDroid({
-            inputPath: newBinaryPath,
-            outputPath,
-            patches,
+    const failed = checks.filter((c) => c.status === "fail");
+    finish(
+      "doctor",
+      failed.length > 0 ? EXIT_CODES.ERROR : EXIT_CODES.SUCCESS,
+      { fix: !!options.fix, checks },
+      failed.map((c) => `${c.name}: ${c.message}`),
+    );
+  })
+  .command("gc", "Delete binaries, wrappers, metadata and generations no alias uses")
+  .option("--dry-run", "Only report what would be deleted and how much space it frees")
+  .action(async (options) => {
+    if (options.json) enableJsonMode();
+    const dryRun = !!options["dry-run"];
+
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log(styleText(["cyan", "bold"], "  Droid-Patch Garbage Collection"));
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log();
+
+    try {
+      const report = await collectGarbage({ dryRun });
+      printGarbageReport(report);
+      if (dryRun && report.items.length > 0) {
+        console.log(styleText("gray", "    Run without --dry-run to delete them"));
+      }
+      finish("gc", EXIT_CODES.SUCCESS, { dryRun, ...report });
+    } catch (error) {
+      console.log(styleText("red", `Error: ${(error as Error).message}`));
+      finish("gc", EXIT_CODES.ERROR, { dryRun }, [(error as Error).message]);
+    }
+  })
+  .command("ls-modules", "List the modules embedded in the droid binary with offsets and sizes")
+  .option("-p, --path <path>", "Path of the droid binary (default: the installed droid)")
+  .action(async (options) => {
+    if (options.json) enableJsonMode();
+    const droidPath = (options.path as string) || findDefaultDroidPath();
+    const { graph } = await loadModuleGraph("ls-modules", droidPath);
+
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log(styleText(["cyan", "bold"], "  Embedded Modules"));
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log();
+    console.log(styleText("white", `Binary: ${droidPath}`));
+    printModuleGraph(graph);
+    console.log();
+
+    finish("ls-modules", EXIT_CODES.SUCCESS, { droidPath, ...graph });
+  })
+  .command("extract", "Write the main JS bundle (or another embedded module) of droid to a file")
+  .argument("[module]", "Name or file name of the module to extract (default: the entry point)")
+  .option("-p, --path <path>", "Path of the droid binary (default: the installed droid)")
+  .option(
+    "-o, --output <file>",
+    "File to write (default: the module's file name in the current directory)",
+  )
+  .action(async (options, args) => {
+    if (options.json) enableJsonMode();
+    const droidPath = (options.path as string) || findDefaultDroidPath();
+    const name = args?.[0] as string | undefined;
+    const { data, graph } = await loadModuleGraph("extract", droidPath);
+
+    const module = name ? findEmbeddedModule(graph, name) : graph.entryPoint;
+    if (!module) {
+      console.log(styleText("red", `Error: No embedded module named "${name}"`));
+      console.log(
+        styleText("gray", "Run 'npx droid-patch ls-modules' to see the embedded modules"),
+      );
+      finish("extract", EXIT_CODES.NOT_FOUND, { droidPath, module: name }, [
+        `No embedded module named "${name}"`,
+      ]);
+    }
+
+    // The entry point is usually named after the executable, without an extension
+    let fileName = module.name.split(/[/\\]/).at(-1)!;
+    if (["js", "jsx", "ts", "tsx"].includes(module.loader) && !/\.[cm]?[jt]sx?$/.test(fileName)) {
+      fileName += ".js";
+    }
+    const outputPath = resolve((options.output as string) || fileName);
+    try {
+      await writeFileAtomic(outputPath, data.subarray(module.offset, module.offset + module.size));
+    } catch (error) {
+      console.log(styleText("red", `Error: ${(error as Error).message}`));
+      finish("extract", EXIT_CODES.ERROR, { droidPath, module }, [(error as Error).message]);
+    }
+
+    console.log(
+      styleText(
+        "green",
+        `[*] Extracted ${module.name} (${module.size} bytes) to ${styleText("cyan", outputPath)}`,
+      ),
+    );
+    finish("extract", EXIT_CODES.SUCCESS, { droidPath, module, outputPath });
+  })
+  .command("update", "Update aliases with latest droid binary")
+  .argument("[alias]", "Specific alias to update (optional, updates all if not specified)")
+  .option("--dry-run", "Preview without making changes")
+  .option("-p, --path <path>", "Path to new droid binary")
+  .option("-v, --verbose", "Enable verbose output")
+  .action(async (options, args) => {
+    if (options.json) enableJsonMode();
+    const aliasName = args?.[0] as string | undefined;
+    const dryRun = options["dry-run"] as boolean;
+    const newBinaryPath = (options.path as string) || findDefaultDroidPath();
+    const verbose = options.verbose as boolean;
+
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log(styleText(["cyan", "bold"], "  Droid-Patch Update"));
+    console.log(styleText("cyan", "═".repeat(60)));
+    console.log();
+
+    // Verify the new binary exists
+    if (!existsSync(newBinaryPath)) {
+      console.log(styleText("red", `Error: Droid binary not found at ${newBinaryPath}`));
+      console.log(styleText("gray", "Use -p to specify a different path"));
+      finish("update", EXIT_CODES.NOT_FOUND, { droidPath: newBinaryPath }, [
+        `Droid binary not found: ${newBinaryPath}`,
+      ]);
+    }
+
+    // Updating a single alias leaves the in-place replacement alone
+    const replacement = await loadReplacementMetadata();
+    const reapplyReplacement = !aliasName && !!replacement;
+
+    // Get aliases to update
+    let metaList: Awaited<ReturnType<typeof loadAliasMetadata>>[];
+    if (aliasName) {
+      const meta = await loadAliasMetadata(aliasName);
+      if (!meta) {
+        console.log(styleText("red", `Error: No metadata found for alias "${aliasName}"`));
+        console.log(
+          styleText("gray", "This alias may have been created before update tracking was added."),
+        );
+        console.log(styleText("gray", "Remove and recreate the alias to enable update support."));
+        finish("update", EXIT_CODES.NOT_FOUND, { droidPath: newBinaryPath }, [
+          `No metadata found for alias "${aliasName}"`,
+        ]);
+      }
+      metaList = [meta];
+    } else {
+      const { aliases } = await loadAliasRegistry();
+      // Metadata whose alias was deleted by hand is left for `doctor --fix`
+      const orphaned = aliases.filter((a) => a.status === "orphaned-metadata");
+      if (orphaned.length > 0) {
+        console.log(
+          styleText(
+            "gray",
+            `Skipping ${orphaned.length} alias(es) with metadata but no link: ${orphaned.map((a) => a.name).join(", ")}`,
+          ),
+        );
+      }
+      metaList = aliases.flatMap((a) =>
+        a.metadata && a.status !== "orphaned-metadata" ? [a.metadata] : [],
+      );
+      if (metaList.length === 0 && !reapplyReplacement) {
+        console.log(styleText("yellow", "No aliases with metadata found."));
+        console.log(styleText("gray", "Create aliases with droid-patch to enable update support."));
+        finish("update", EXIT_CODES.SUCCESS, { dryRun, droidPath: newBinaryPath, aliases: [] });
+      }
+    }
+
+    console.log(styleText("white", `Using droid binary: ${newBinaryPath}`));
+    console.log(styleText("white", `Found ${metaList.length} alias(es) to update`));
+    if (dryRun) {
+      console.log(styleText("blue", "(DRY RUN - no changes will be made)"));
+    }
+    console.log();
+
+    const replacementEntry: {
+      droidPath: string;
+      ok: boolean;
+      reapplied: boolean;
+      patches?: ReturnType<typeof patchResultsToJson>;
+      metadata?: ReplacementMetadata;
+      error?: string;
+    } | null = reapplyReplacement
+      ? { droidPath: replacement.originalPath, ok: false, reapplied: false }
+      : null;
+
+    // Re-apply an in-place replacement once droid has replaced itself with a new version
+    if (replacement && replacementEntry) {
+      console.log(styleText("cyan", `─`.repeat(40)));
+      console.log(
+        styleText(
+          "white",
+          `Replaced in place: ${styleText(["cyan", "bold"], replacement.originalPath)}`,
+        ),
+      );
+      console.log(
+        styleText(
+          "gray",
+          `  Patches: ${formatPatches(replacement.patches, replacement.customPatches)}`,
+        ),
+      );
+
+      try {
+        if (!existsSync(replacement.originalPath)) {
+          throw new Error(`Droid binary not found: ${replacement.originalPath}`);
+        }
+        if ((await sha256File(replacement.originalPath)) === replacement.outputSha256) {
+          console.log(styleText("green", `  ✓ Still patched, nothing to re-apply`));
+          replacementEntry.ok = true;
+        } else if (dryRun) {
+          console.log(styleText("blue", `  [DRY RUN] droid has changed, would re-apply patches`));
+          replacementEntry.ok = true;
+        } else {
+          console.log(styleText("white", `  droid has changed, re-applying patches`));
+          const { result, replacement: updated } = await replaceInPlace({
+            droidPath: replacement.originalPath,
+            patchFlags: replacement.patches,
+            customPatches: replacement.customPatches ?? [],
             dryRun: false,
-            backup: false,
             verbose,
           });
-
+          replacementEntry.patches = patchResultsToJson(result.results);
           if (!result.success) {
-            console.log(styleText("red", `  ✗ Failed to apply patches`));
-            failCount++;
-            continue;
-          }
-
-          // Re-sign on macOS
-          if (process.platform === "darwin") {
-            try {
-              const { execSync } = await import("node:child_process");
-              execSync(`codesign --force --deep --sign - "${outputPath}"`, {
-                stdio: "pipe",
-              });
-              if (verbose) {
-                console.log(styleText("gray", `  Re-signed binary`));
-              }
-            } catch {
-              console.log(styleText("yellow", `  [!] Could not re-sign binary`));
-            }
+            throw new Error(patchErrors(result).join("; "));
           }
+          Object.assign(replacementEntry, { ok: true, reapplied: !!updated, metadata: updated });
         }
+      } catch (error) {
+        console.log(styleText("red", `  ✗ Error: ${(error as Error).message}`));
+        replacementEntry.error = (error as Error).message;
+      }
+    }
 
-        let execTargetPath = patches.length > 0 ? outputPath : newBinaryPath;
+    const sourceBinaryPath = await unpatchedSource(newBinaryPath, verbose);
 
-        // If websearch is enabled, regenerate wrapper files
-        // Support both new 'websearch' field and old 'proxy' field for backward compatibility
-        const hasWebsearch = meta.patches.websearch || !!meta.patches.proxy;
-        if (hasWebsearch) {
-          // Determine forward target: apiBase > proxy (legacy) > default
-          const forwardTarget =
-            meta.patches.apiBase || meta.patches.proxy || "https://api.factory.ai";
-          const proxyDir = join(homedir(), ".droid-patch", "proxy");
-          const { wrapperScript } = await createWebSearchUnifiedFiles(
-            proxyDir,
-            execTargetPath,
-            meta.name,
-            forwardTarget,
-            meta.patches.standalone || false,
-          );
-          execTargetPath = wrapperScript;
-          if (verbose) {
-            console.log(styleText("gray", `  Regenerated websearch wrapper`));
-            if (meta.patches.standalone) {
-              console.log(styleText("gray", `  Standalone mode: enabled`));
-            }
-          }
-          // Migrate old proxy field to new websearch field
-          if (meta.patches.proxy && !meta.patches.websearch) {
-            meta.patches.websearch = true;
-            meta.patches.apiBase = meta.patches.proxy;
-            delete meta.patches.proxy;
-          }
-        }
+    let successCount = 0;
+    const updates: Array<{
+      name: string;
+      ok: boolean;
+      patches?: ReturnType<typeof patchResultsToJson>;
+      outputPath?: string;
+      aliasPath?: string | null;
+      metadata?: AliasMetadata;
+      /** Generation holding the state before this update */
+      generation?: number;
+      /** Set when the patched binary had changed since it was written */
+      warning?: string;
+      error?: string;
+    }> = [];
 
-        // If this alias previously used removed features (statusline/sessions), drop legacy flags
-        // so the updated alias points directly to the new target wrapper/binary.
-        delete (meta.patches as Record<string, unknown>).statusline;
-        delete (meta.patches as Record<string, unknown>).sessions;
-
-        // Update symlink - find existing or use stored aliasPath
-        const { symlink, unlink, readlink, lstat } = await import("node:fs/promises");
-        let aliasPath = meta.aliasPath;
-
-        // If aliasPath not stored (old version), try to find existing symlink
-        if (!aliasPath) {
-          const commonPathDirs = [
-            join(homedir(), ".local/bin"),
-            join(homedir(), "bin"),
-            join(homedir(), ".bin"),
-            "/opt/homebrew/bin",
-            "/usr/local/bin",
-            join(homedir(), ".droid-patch", "aliases"),
-          ];
-
-          for (const dir of commonPathDirs) {
-            const possiblePath = join(dir, meta.name);
-            if (existsSync(possiblePath)) {
-              try {
-                const stats = await lstat(possiblePath);
-                if (stats.isSymbolicLink()) {
-                  const target = await readlink(possiblePath);
-                  if (
-                    target.includes(".droid-patch/bins") ||
-                    target.includes(".droid-patch/proxy") ||
-                    target.includes(".droid-patch/statusline")
-                  ) {
-                    aliasPath = possiblePath;
-                    if (verbose) {
-                      console.log(styleText("gray", `  Found existing symlink: ${aliasPath}`));
-                    }
-                    break;
-                  }
-                }
-              } catch {
-                // Ignore errors, continue searching
-              }
-            }
-          }
+    for (const meta of metaList) {
+      if (!meta) continue;
+      const entry: (typeof updates)[number] = { name: meta.name, ok: false };
+      updates.push(entry);
+
+      console.log(styleText("cyan", `─`.repeat(40)));
+      console.log(styleText("white", `Updating: ${styleText(["cyan", "bold"], meta.name)}`));
+      console.log(
+        styleText("gray", `  Patches: ${formatPatches(meta.patches, meta.customPatches)}`),
+      );
+
+      if (dryRun) {
+        console.log(styleText("blue", `  [DRY RUN] Would re-apply patches`));
+        entry.ok = true;
+        successCount++;
+        continue;
+      }
+
+      try {
+        const binary = await verifyAliasBinary(meta);
+        if (binary.status === "modified") {
+          entry.warning = `${binary.path} does not match its recorded SHA-256`;
+          console.log(styleText("yellow", `  [!] ${entry.warning}; re-patching it`));
+          // Changed in place, so its stored copy changed too and must not be reused
+          await evictStoredBinary(binary.path!);
         }
 
-        // Update symlink if we have a path
-        if (aliasPath) {
-          try {
-            if (existsSync(aliasPath)) {
-              const currentTarget = await readlink(aliasPath);
-              if (currentTarget !== execTargetPath) {
-                await unlink(aliasPath);
-                await symlink(execTargetPath, aliasPath);
-                if (verbose) {
-                  console.log(styleText("gray", `  Updated symlink: ${aliasPath}`));
-                }
-              }
-            } else {
-              // Symlink doesn't exist, recreate it
-              await symlink(execTargetPath, aliasPath);
-              if (verbose) {
-                console.log(styleText("gray", `  Recreated symlink: ${aliasPath}`));
-              }
-            }
-            // Store aliasPath in metadata for future updates
-            meta.aliasPath = aliasPath;
-          } catch (symlinkError) {
-            console.log(
-              styleText(
-                "yellow",
-                `  [!] Could not update symlink: ${(symlinkError as Error).message}`,
-              ),
-            );
-          }
+        // Keep the current binary, wrapper and metadata so a bad update can be rolled back
+        const generation = await saveGeneration(meta);
+        entry.generation = generation.generation;
+        if (verbose) {
+          console.log(styleText("gray", `  Saved generation ${generation.generation}`));
         }
 
-        // Update metadata
-        meta.updatedAt = new Date().toISOString();
-        meta.originalBinaryPath = newBinaryPath;
-        meta.droidVersion = getDroidVersion(newBinaryPath);
-        meta.droidPatchVersion = version;
-        await saveAliasMetadata(meta);
+        const rebuilt = await rebuildAlias(meta, sourceBinaryPath, verbose);
+        entry.patches = rebuilt.patches;
+        if (!rebuilt.ok) {
+          entry.error = rebuilt.error;
+          continue;
+        }
 
         console.log(styleText("green", `  ✓ Updated successfully`));
+        Object.assign(entry, {
+          ok: true,
+          outputPath: rebuilt.outputPath,
+          aliasPath: rebuilt.aliasPath,
+          metadata: meta,
+        });
         successCount++;
       } catch (error) {
         console.log(styleText("red", `  ✗ Error: ${(error as Error).message}`));
+        entry.error = (error as Error).message;
         if (verbose) {
           console.error((error as Error).stack);
         }
-        failCount++;
       }
     }
 
+    const failures = updates.filter((u) => !u.ok).map((u) => `${u.name}: ${u.error}`);
+    if (replacementEntry && !replacementEntry.ok) {
+      failures.unshift(`${replacementEntry.droidPath}: ${replacementEntry.error}`);
+    }
+    const succeeded = successCount + (replacementEntry?.ok ? 1 : 0);
+
     console.log();
     console.log(styleText("cyan", "═".repeat(60)));
     if (dryRun) {
       console.log(styleText(["blue", "bold"], "  DRY RUN COMPLETE"));
       console.log(styleText("gray", `  Would update ${successCount} alias(es)`));
-    } else if (failCount === 0) {
+    } else if (failures.length === 0) {
       console.log(styleText(["green", "bold"], "  UPDATE COMPLETE"));
       console.log(styleText("gray", `  Updated ${successCount} alias(es)`));
     } else {
       console.log(styleText(["yellow", "bold"], "  UPDATE FINISHED WITH ERRORS"));
-      console.log(styleText("gray", `  Success: ${successCount}, Failed: ${failCount}`));
+      console.log(styleText("gray", `  Success: ${succeeded}, Failed: ${failures.length}`));
+    }
+    if (replacementEntry?.reapplied) {
+      console.log(
+        styleText("gray", `  Re-applied in-place replacement: ${replacementEntry.droidPath}`),
+      );
     }
     console.log(styleText("cyan", "═".repeat(60)));
+
+    const exitCode =
+      failures.length === 0
+        ? EXIT_CODES.SUCCESS
+        : succeeded === 0
+          ? EXIT_CODES.PATCH_FAILED
+          : EXIT_CODES.PARTIAL_FAILURE;
+    finish(
+      "update",
+      exitCode,
+      { dryRun, droidPath: newBinaryPath, aliases: updates, replacement: replacementEntry },
+      failures,
+    );
   })
   .command("add-model", "Add a custom model to settings.json (interactive if no options)")
   .option("-m, --model <model>", "Model name (e.g., claude-sonnet-4-20250514)")
@@ -1257,11 +2429,15 @@ bin("droid-patch", "CLI tool to patch droid binary with various modifications")
     }
   })
   .command("list-models", "List all custom models in settings.json")
-  .action(() => {
+  .action((options) => {
+    if (options.json) {
+      enableJsonMode();
+      finish("list-models", EXIT_CODES.SUCCESS, { ...getModelsListing() });
+    }
     printModelsList();
   })
   .run()
   .catch((err: Error) => {
     console.error(err);
-    process.exit(1);
+    finish("droid-patch", EXIT_CODES.ERROR, {}, [err.message]);
   });
@@ -0,0 +1,302 @@
+/**
+ * Environment and Alias Health Checks
+ *
+ * `doctor` inspects the droid binary, the alias directories, alias metadata,
+ * patched binaries (against their recorded SHA-256), the websearch wrapper
+ * runtime and ~/.factory/settings.json. With fix: true
+ * it repairs what can be repaired without losing anything that still works.
+ */
+
+import { spawnSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import { unlink } from "node:fs/promises";
+import { resolve } from "node:path";
+import { styleText } from "node:util";
+import { loadAliasRegistry, type AliasInfo } from "./alias.ts";
+import { getDroidVersion } from "./droid-version.ts";
+import { removeAliasMetadata, verifyAliasBinary } from "./metadata.ts";
+import { inspectSettings } from "./model-manager.ts";
+
+const IS_WINDOWS = process.platform === "win32";
+
+export type CheckStatus = "pass" | "warn" | "fail";
+
+export interface DoctorCheck {
+  /** Short check name shown in the table */
+  name: string;
+  status: CheckStatus;
+  /** One-line result */
+  message: string;
+  /** Affected aliases, files or commands */
+  details?: string[];
+  /** What the user can do about a warning or failure */
+  hint?: string;
+  /** Set when --fix repaired the problem */
+  fixed?: boolean;
+}
+
+export interface DoctorOptions {
+  /** droid binary to check (default location or -p) */
+  droidPath: string;
+  /** Apply safe repairs */
+  fix?: boolean;
+}
+
+function isWebSearchAlias(alias: AliasInfo): boolean {
+  const patches = alias.metadata?.patches;
+  return (
+    !!patches?.websearch ||
+    !!patches?.websearchProxy ||
+    /[\\/]\.droid-patch[\\/](proxy|websearch)[\\/]/.test(alias.target ?? "")
+  );
+}
+
+function commandAvailable(command: string): boolean {
+  const result = spawnSync(command, ["--version"], { stdio: "ignore", timeout: 5000 });
+  return !result.error && result.status === 0;
+}
+
+function checkDroidBinary(droidPath: string): DoctorCheck {
+  const name = "droid binary";
+  if (!existsSync(droidPath)) {
+    return {
+      name,
+      status: "fail",
+      message: `Not found at ${droidPath}`,
+      hint: "Install droid or pass its location with -p <path>",
+    };
+  }
+  const version = getDroidVersion(droidPath);
+  return {
+    name,
+    status: "pass",
+    message: version ? `${droidPath} (droid ${version})` : droidPath,
+  };
+}
+
+function checkPath(aliases: AliasInfo[], aliasesDir: string, pathConfigured: boolean): DoctorCheck {
+  const name = "PATH";
+  const needsSource = aliases.filter((a) => a.links.length > 0 && !a.immediate);
+  if (pathConfigured || needsSource.length === 0) {
+    return {
+      name,
+      status: "pass",
+      message: pathConfigured
+        ? `${aliasesDir} is on PATH`
+        : "All aliases are in a directory on PATH",
+    };
+  }
+  return {
+    name,
+    status: "warn",
+    message: `${needsSource.length} alias(es) in ${aliasesDir}, which is not on PATH`,
+    details: needsSource.map((a) => a.name),
+    hint: IS_WINDOWS
+      ? `Add ${aliasesDir} to your user PATH`
+      : `Add export PATH="${aliasesDir}:$PATH" to your shell config and restart the shell`,
+  };
+}
+
+async function checkDanglingAliases(aliases: AliasInfo[], fix: boolean): Promise<DoctorCheck> {
+  const name = "alias targets";
+  const dangling = aliases
+    .flatMap((a) => a.links)
+    .filter((link) => !existsSync(resolve(link.location, link.target)));
+  if (dangling.length === 0) {
+    const linked = aliases.filter((a) => a.links.length > 0).length;
+    return { name, status: "pass", message: `${linked} alias(es) point to existing files` };
+  }
+
+  const details = dangling.map((link) => `${link.path} -> ${link.target}`);
+  if (!fix) {
+    return {
+      name,
+      status: "fail",
+      message: `${dangling.length} alias link(s) point to missing files`,
+      details,
+      hint: "Run `droid-patch doctor --fix` to remove them, or `droid-patch rollback <alias>`",
+    };
+  }
+
+  const failed: string[] = [];
+  for (const link of dangling) {
+    try {
+      await unlink(link.path);
+    } catch (error) {
+      failed.push(`${link.path}: ${(error as Error).message}`);
+    }
+  }
+  if (failed.length > 0) {
+    return {
+      name,
+      status: "fail",
+      message: `Could not remove ${failed.length} dangling link(s)`,
+      details: failed,
+    };
+  }
+  return {
+    name,
+    status: "pass",
+    message: `Removed ${dangling.length} dangling link(s)`,
+    details,
+    fixed: true,
+  };
+}
+
+async function checkOrphanedMetadata(aliases: AliasInfo[], fix: boolean): Promise<DoctorCheck> {
+  const name = "alias metadata";
+  const orphaned = aliases.filter((a) => a.status === "orphaned-metadata");
+  if (orphaned.length === 0) {
+    return { name, status: "pass", message: "Every metadata file belongs to an alias" };
+  }
+
+  const details = orphaned.map((a) => a.name);
+  if (!fix) {
+    return {
+      name,
+      status: "warn",
+      message: `${orphaned.length} metadata file(s) without an alias`,
+      details,
+      hint: "Run `droid-patch doctor --fix` to remove them",
+    };
+  }
+  for (const alias of orphaned) {
+    await removeAliasMetadata(alias.name);
+  }
+  return {
+    name,
+    status: "pass",
+    message: `Removed ${orphaned.length} metadata file(s) without an alias`,
+    details,
+    fixed: true,
+  };
+}
+
+function checkMissingMetadata(aliases: AliasInfo[]): DoctorCheck {
+  const name = "alias tracking";
+  const untracked = aliases.filter((a) => a.status === "untracked");
+  if (untracked.length === 0) {
+    return { name, status: "pass", message: "Every alias has metadata" };
+  }
+  return {
+    name,
+    status: "warn",
+    message: `${untracked.length} alias(es) without metadata cannot be updated`,
+    details: untracked.map((a) => a.name),
+    hint: "Recreate them with droid-patch to enable `update`",
+  };
+}
+
+async function checkAliasBinaries(aliases: AliasInfo[]): Promise<DoctorCheck> {
+  const name = "alias binaries";
+  const details: string[] = [];
+  let verified = 0;
+  for (const alias of aliases) {
+    if (!alias.metadata || alias.status === "orphaned-metadata") continue;
+    const { status, path } = await verifyAliasBinary(alias.metadata);
+    if (status === "ok") verified++;
+    if (status === "modified") details.push(`${alias.name}: ${path} does not match its SHA-256`);
+    if (status === "missing") details.push(`${alias.name}: patched binary is missing`);
+  }
+  if (details.length === 0) {
+    return { name, status: "pass", message: `${verified} patched binary(ies) match their SHA-256` };
+  }
+  return {
+    name,
+    status: "fail",
+    message: `${details.length} patched binary(ies) changed since they were written`,
+    details,
+    hint: "Run `droid-patch update <alias>` to rebuild them",
+  };
+}
+
+function checkWebSearchRuntime(aliases: AliasInfo[]): DoctorCheck {
+  const name = "websearch runtime";
+  const webSearchAliases = aliases.filter(isWebSearchAlias);
+  if (webSearchAliases.length === 0) {
+    return { name, status: "pass", message: "No websearch aliases" };
+  }
+
+  // The Windows launcher falls back to PowerShell when curl is missing
+  const required = IS_WINDOWS ? ["node"] : ["node", "curl"];
+  const missing = required.filter((command) => !commandAvailable(command));
+  if (missing.length === 0) {
+    return { name, status: "pass", message: `${required.join(" and ")} available` };
+  }
+  return {
+    name,
+    status: "fail",
+    message: `${missing.join(" and ")} not found; websearch aliases will not start`,
+    details: webSearchAliases.map((a) => a.name),
+    hint: `Install ${missing.join(" and ")} and make sure it is on PATH`,
+  };
+}
+
+function checkSettings(): DoctorCheck {
+  const name = "settings.json";
+  const settings = inspectSettings();
+  if (!settings.exists) {
+    return { name, status: "pass", message: `${settings.path} not present (no custom models)` };
+  }
+  if (settings.error) {
+    return {
+      name,
+      status: "fail",
+      message: settings.error,
+      details: [settings.path],
+      hint: "Fix the file by hand; add-model would overwrite it",
+    };
+  }
+  return { name, status: "pass", message: `${settings.customModelCount} custom model(s)` };
+}
+
+/**
+ * Run all checks, applying safe repairs when options.fix is set
+ */
+export async function runDoctor(options: DoctorOptions): Promise<DoctorCheck[]> {
+  const fix = !!options.fix;
+  const { aliases, aliasesDir, pathConfigured } = await loadAliasRegistry();
+
+  return [
+    checkDroidBinary(options.droidPath),
+    checkPath(aliases, aliasesDir, pathConfigured),
+    await checkDanglingAliases(aliases, fix),
+    await checkOrphanedMetadata(aliases, fix),
+    checkMissingMetadata(aliases),
+    await checkAliasBinaries(aliases),
+    checkWebSearchRuntime(aliases),
+    checkSettings(),
+  ];
+}
+
+const STATUS_LABELS: Record<CheckStatus, string> = {
+  pass: styleText("green", "PASS "),
+  warn: styleText("yellow", "WARN "),
+  fail: styleText("red", "FAIL "),
+};
+
+/**
+ * Print the checks as a pass/warn/fail table
+ */
+export function printDoctorReport(checks: DoctorCheck[]): void {
+  const nameWidth = Math.max(...checks.map((c) => c.name.length));
+
+  for (const check of checks) {
+    const label = check.fixed ? styleText("cyan", "FIXED") : STATUS_LABELS[check.status];
+    console.log(`  ${label}  ${check.name.padEnd(nameWidth)}  ${check.message}`);
+    const indent = " ".repeat(nameWidth + 11);
+    for (const detail of check.details ?? []) {
+      console.log(styleText("gray", `${indent}- ${detail}`));
+    }
+    if (check.hint && check.status !== "pass") {
+      console.log(styleText("gray", `${indent}${check.hint}`));
+    }
+  }
+
+  const count = (status: CheckStatus) => checks.filter((c) => c.status === status).length;
+  console.log();
+  console.log(
+    `  ${count("pass")} passed, ${count("warn")} warning(s), ${count("fail")} failed` +
+      (checks.some((c) => c.fixed) ? `, ${checks.filter((c) => c.fixed).length} fixed` : ""),
+  );
+}
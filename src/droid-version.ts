@@ -0,0 +1,84 @@
+/**
+ * Droid Version Detection
+ *
+ * The version is read from the JS bundle embedded in the droid binary, so it works
+ * for binaries that cannot be run here: patched binaries that refuse to start,
+ * binaries built for another platform, and sandboxes that forbid spawning.
+ * Running `droid --version` is the fallback when no version string is found.
+ */
+
+import { execSync } from "node:child_process";
+import { readFileSync, statSync } from "node:fs";
+
+const VERSION = String.raw`(\d+\.\d+\.\d+(?:-[0-9A-Za-z.]+)?)`;
+
+// Places the CLI version appears in the bundle, most specific first
+const EMBEDDED_VERSION_PATTERNS = [
+  // Inlined package.json
+  new RegExp(String.raw`"name"\s*:\s*"@factory\/cli"\s*,\s*"version"\s*:\s*"${VERSION}"`),
+  // Build-time constant
+  new RegExp(String.raw`\bCLI_VERSION\s*[=:]\s*["']${VERSION}["']`),
+  // User agent sent with API requests
+  new RegExp(String.raw`\bfactory-cli\/${VERSION}`),
+];
+
+// Keyed by path, size and mtime so a replaced binary is read again
+const versionCache = new Map<string, string | undefined>();
+
+/**
+ * Find the droid version in the bytes of a droid binary
+ * Returns undefined if no known version string is present
+ */
+export function readEmbeddedDroidVersion(data: Buffer): string | undefined {
+  // latin1 maps every byte to one character, so binary data cannot break the match
+  const text = data.toString("latin1");
+  for (const pattern of EMBEDDED_VERSION_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Get the version of a droid binary, read from the binary itself or, failing that,
+ * by running `droid --version`
+ * Returns undefined if neither yields a version
+ */
+export function getDroidVersion(droidPath: string): string | undefined {
+  let cacheKey: string;
+  try {
+    const stats = statSync(droidPath);
+    cacheKey = `${droidPath}:${stats.size}:${stats.mtimeMs}`;
+  } catch {
+    return runDroidVersion(droidPath);
+  }
+  if (versionCache.has(cacheKey)) return versionCache.get(cacheKey);
+
+  let version: string | undefined;
+  try {
+    version = readEmbeddedDroidVersion(readFileSync(droidPath));
+  } catch {
+    // Unreadable: running it may still work (e.g. execute-only permissions)
+  }
+  version ??= runDroidVersion(droidPath);
+  versionCache.set(cacheKey, version);
+  return version;
+}
+
+/**
+ * Get the version of a droid binary by running `droid --version`
+ */
+function runDroidVersion(droidPath: string): string | undefined {
+  try {
+    const result = execSync(`"${droidPath}" --version`, {
+      encoding: "utf-8",
+      stdio: ["pipe", "pipe", "pipe"],
+      timeout: 5000,
+    }).trim();
+    // Parse version from output like "droid 1.2.3" or just "1.2.3"
+    const match = result.match(/(\d+\.\d+\.\d+)/);
+    return match ? match[1] : result || undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * Executable Sections
+ *
+ * Maps file offsets to the sections of ELF, Mach-O and PE executables, so patch
+ * matches can be told apart: the embedded JavaScript lives in Bun's own section
+ * (`.bun` on ELF and PE, `__BUN,__bun` on Mach-O) or is appended after the last
+ * section, while everything else (.text, .rodata, __TEXT...) is the native Bun
+ * runtime. Only the headers are read; malformed headers yield no sections.
+ */
+
+export type ExecutableFormat = "elf" | "macho" | "pe" | "unknown";
+
+export interface ExecutableSection {
+  /** Section name, e.g. .text or __TEXT,__cstring; see APPENDED_DATA */
+  name: string;
+  /** File offset */
+  offset: number;
+  /** Size in the file */
+  size: number;
+}
+
+/** Name of the region after the last section, where older Bun builds append the JS */
+export const APPENDED_DATA = "(appended data)";
+
+const BUN_SECTIONS = new Set([".bun", "__BUN,__bun"]);
+
+// ELF section types without file contents
+const SHT_NULL = 0;
+const SHT_NOBITS = 8;
+
+// Mach-O load commands and zero-fill section types
+const LC_SEGMENT = 0x1;
+const LC_SEGMENT_64 = 0x19;
+const ZEROFILL_SECTION_TYPES = new Set([0x1, 0xc, 0x12]);
+
+/**
+ * Tell the executable format from the file's magic bytes
+ */
+export function detectExecutableFormat(data: Buffer): ExecutableFormat {
+  if (data.length < 4) return "unknown";
+  const magic = data.readUInt32BE(0);
+  if (magic === 0x7f454c46) return "elf";
+  // 64- and 32-bit, either byte order, and universal binaries
+  if ([0xcffaedfe, 0xcefaedfe, 0xfeedfacf, 0xfeedface, 0xcafebabe].includes(magic)) {
+    return "macho";
+  }
+  if (data[0] === 0x4d && data[1] === 0x5a) return "pe";
+  return "unknown";
+}
+
+/**
+ * Sections of an executable that occupy bytes in the file, in file order,
+ * followed by APPENDED_DATA if anything comes after them
+ * Returns an empty list for other files and malformed headers.
+ */
+export function parseExecutableSections(data: Buffer): ExecutableSection[] {
+  let sections: ExecutableSection[];
+  let end: number;
+  try {
+    switch (detectExecutableFormat(data)) {
+      case "elf":
+        ({ sections, end } = parseElf(data));
+        break;
+      case "macho":
+        ({ sections, end } = parseMachO(data));
+        break;
+      case "pe":
+        ({ sections, end } = parsePe(data));
+        break;
+      default:
+        return [];
+    }
+  } catch {
+    // Reads past the end of the file
+    return [];
+  }
+  if (sections.some((section) => section.offset + section.size > data.length)) return [];
+
+  sections.sort((a, b) => a.offset - b.offset);
+  if (end < data.length) {
+    sections.push({ name: APPENDED_DATA, offset: end, size: data.length - end });
+  }
+  return sections;
+}
+
+/**
+ * The innermost section containing a file offset. On a tie the later entry wins,
+ * so a Mach-O section is preferred over its segment.
+ */
+export function findSection(
+  sections: ExecutableSection[],
+  offset: number,
+): ExecutableSection | undefined {
+  let found: ExecutableSection | undefined;
+  for (const section of sections) {
+    if (offset >= section.offset && offset < section.offset + section.size) {
+      if (!found || section.size <= found.size) found = section;
+    }
+  }
+  return found;
+}
+
+/**
+ * The section holding the embedded JavaScript: Bun's own section, or the data
+ * appended after the last section
+ */
+export function findJsSection(sections: ExecutableSection[]): ExecutableSection | undefined {
+  return (
+    sections.find((section) => BUN_SECTIONS.has(section.name)) ??
+    sections.find((section) => section.name === APPENDED_DATA)
+  );
+}
+
+interface Parsed {
+  sections: ExecutableSection[];
+  /** Where the executable proper ends */
+  end: number;
+}
+
+/**
+ * Integer reads in a file's byte order
+ */
+function reader(data: Buffer, littleEndian: boolean) {
+  return {
+    u16: (at: number) => (littleEndian ? data.readUInt16LE(at) : data.readUInt16BE(at)),
+    u32: (at: number) => (littleEndian ? data.readUInt32LE(at) : data.readUInt32BE(at)),
+    u64: (at: number) => Number(littleEndian ? data.readBigUInt64LE(at) : data.readBigUInt64BE(at)),
+  };
+}
+
+function cString(data: Buffer, start: number, maxLength: number): string {
+  const end = data.indexOf(0, start);
+  const limit = Math.min(start + maxLength, data.length);
+  return data.toString("latin1", start, end === -1 || end > limit ? limit : end);
+}
+
+function parseElf(data: Buffer): Parsed {
+  const is64 = data[4] === 2;
+  const { u16, u32, u64 } = reader(data, data[5] !== 2);
+  const word = is64 ? u64 : u32;
+
+  const phoff = word(is64 ? 0x20 : 0x1c);
+  const shoff = word(is64 ? 0x28 : 0x20);
+  const phentsize = u16(is64 ? 0x36 : 0x2a);
+  const phnum = u16(is64 ? 0x38 : 0x2c);
+  const shentsize = u16(is64 ? 0x3a : 0x2e);
+  const shnum = u16(is64 ? 0x3c : 0x30);
+  const shstrndx = u16(is64 ? 0x3e : 0x32);
+
+  let end = Math.max(is64 ? 0x40 : 0x34, shoff + shnum * shentsize, phoff + phnum * phentsize);
+  for (let i = 0; i < phnum; i++) {
+    const at = phoff + i * phentsize;
+    const offset = word(at + (is64 ? 8 : 4));
+    const filesz = word(at + (is64 ? 32 : 16));
+    end = Math.max(end, offset + filesz);
+  }
+
+  const headers = Array.from({ length: shnum }, (_, i) => {
+    const at = shoff + i * shentsize;
+    return {
+      nameOffset: u32(at),
+      type: u32(at + 4),
+      offset: word(at + (is64 ? 24 : 16)),
+      size: word(at + (is64 ? 32 : 20)),
+    };
+  });
+  const strtab = headers[shstrndx];
+
+  const sections: ExecutableSection[] = [];
+  for (const header of headers) {
+    if (header.type === SHT_NULL || header.type === SHT_NOBITS || header.size === 0) continue;
+    const name = strtab ? cString(data, strtab.offset + header.nameOffset, 256) : "";
+    sections.push({ name, offset: header.offset, size: header.size });
+    end = Math.max(end, header.offset + header.size);
+  }
+  return { sections, end };
+}
+
+function parseMachO(data: Buffer): Parsed {
+  // Universal binary: one Mach-O per architecture
+  if (data.readUInt32BE(0) === 0xcafebabe) {
+    const count = data.readUInt32BE(4);
+    const sections: ExecutableSection[] = [];
+    let end = 8 + count * 20;
+    for (let i = 0; i < count; i++) {
+      const offset = data.readUInt32BE(8 + i * 20 + 8);
+      const size = data.readUInt32BE(8 + i * 20 + 12);
+      const slice = parseMachO(data.subarray(offset, offset + size));
+      sections.push(...slice.sections.map((s) => ({ ...s, offset: s.offset + offset })));
+      end = Math.max(end, offset + size);
+    }
+    return { sections, end };
+  }
+
+  const magic = data.readUInt32LE(0);
+  const littleEndian = magic === 0xfeedfacf || magic === 0xfeedface;
+  const is64 = littleEndian ? magic === 0xfeedfacf : data.readUInt32BE(0) === 0xfeedfacf;
+  const { u32, u64 } = reader(data, littleEndian);
+  const word = is64 ? u64 : u32;
+
+  const ncmds = u32(16);
+  const sizeofcmds = u32(20);
+  const headerSize = is64 ? 32 : 28;
+  let end = headerSize + sizeofcmds;
+
+  const sections: ExecutableSection[] = [];
+  let at = headerSize;
+  for (let i = 0; i < ncmds; i++) {
+    const cmd = u32(at);
+    const cmdsize = u32(at + 4);
+    if (cmd === (is64 ? LC_SEGMENT_64 : LC_SEGMENT)) {
+      const segname = cString(data, at + 8, 16);
+      const fileoff = word(at + (is64 ? 40 : 32));
+      const filesize = word(at + (is64 ? 48 : 36));
+      const nsects = u32(at + (is64 ? 64 : 48));
+      if (filesize > 0) {
+        // Segments are listed too, for bytes between their sections (e.g. __LINKEDIT)
+        sections.push({ name: segname, offset: fileoff, size: filesize });
+        end = Math.max(end, fileoff + filesize);
+      }
+      const sectionSize = is64 ? 80 : 68;
+      for (let j = 0; j < nsects; j++) {
+        const sectAt = at + (is64 ? 72 : 56) + j * sectionSize;
+        const size = word(sectAt + (is64 ? 40 : 36));
+        const offset = u32(sectAt + (is64 ? 48 : 40));
+        const flags = u32(sectAt + (is64 ? 64 : 56));
+        if (size === 0 || offset === 0 || ZEROFILL_SECTION_TYPES.has(flags & 0xff)) continue;
+        const name = `${cString(data, sectAt + 16, 16)},${cString(data, sectAt, 16)}`;
+        sections.push({ name, offset, size });
+      }
+    }
+    if (cmdsize === 0) break;
+    at += cmdsize;
+  }
+  return { sections, end };
+}
+
+function parsePe(data: Buffer): Parsed {
+  const peOffset = data.readUInt32LE(0x3c);
+  if (data.readUInt32BE(peOffset) !== 0x50450000) {
+    throw new Error("Missing PE signature");
+  }
+  const count = data.readUInt16LE(peOffset + 6);
+  const optionalHeaderSize = data.readUInt16LE(peOffset + 20);
+  const tableAt = peOffset + 24 + optionalHeaderSize;
+  let end = tableAt + count * 40;
+
+  const sections: ExecutableSection[] = [];
+  for (let i = 0; i < count; i++) {
+    const at = tableAt + i * 40;
+    const name = cString(data, at, 8);
+    const size = data.readUInt32LE(at + 16);
+    const offset = data.readUInt32LE(at + 20);
+    if (size === 0 || offset === 0) continue;
+    sections.push({ name, offset, size });
+    end = Math.max(end, offset + size);
+  }
+  return { sections, end };
+}
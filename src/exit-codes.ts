@@ -0,0 +1,23 @@
+/**
+ * Process exit codes
+ *
+ * Stable across releases so scripts can branch on them. Documented in the README.
+ */
+export const EXIT_CODES = {
+  /** Everything succeeded (including "already patched, nothing to do") */
+  SUCCESS: 0,
+  /** Unexpected error */
+  ERROR: 1,
+  /** Invalid or conflicting arguments */
+  USAGE: 2,
+  /** Droid binary, alias or metadata not found */
+  NOT_FOUND: 3,
+  /** Patterns not found or patches could not be verified */
+  PATCH_FAILED: 4,
+  /** Patches refused by their checks (length or occurrence expectations); nothing was written */
+  PATCH_REJECTED: 5,
+  /** Some aliases were updated and some failed */
+  PARTIAL_FAILURE: 6,
+} as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
@@ -0,0 +1,117 @@
+/**
+ * Crash-safe File Writes
+ *
+ * Binaries are written to a temporary file in the target directory, flushed
+ * to disk, then renamed over the target. An interrupted write leaves either
+ * the old file or the new one, never a truncated binary.
+ */
+
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { chmod, copyFile, open, rename, unlink } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+
+function tempPathFor(path: string): string {
+  const suffix = `${process.pid}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  return join(dirname(path), `.${basename(path)}.tmp-${suffix}`);
+}
+
+/**
+ * Flush a file's contents to disk
+ */
+async function fsyncPath(path: string): Promise<void> {
+  const handle = await open(path, "r+");
+  try {
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Flush a directory entry (the rename) to disk; not supported on Windows
+ */
+async function fsyncDir(dir: string): Promise<void> {
+  if (process.platform === "win32") return;
+  try {
+    const handle = await open(dir, "r");
+    try {
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    // Some filesystems do not support syncing directories
+  }
+}
+
+/**
+ * Move a fully written temp file into place
+ */
+async function commit(tempPath: string, path: string, mode?: number): Promise<void> {
+  try {
+    if (mode !== undefined) {
+      await chmod(tempPath, mode);
+    }
+    await rename(tempPath, path);
+  } catch (error) {
+    await unlink(tempPath).catch(() => {});
+    throw error;
+  }
+  await fsyncDir(dirname(path));
+}
+
+/**
+ * Write data to a file atomically (temp file + fsync + rename)
+ */
+export async function writeFileAtomic(
+  path: string,
+  data: Buffer | string,
+  mode?: number,
+): Promise<void> {
+  const tempPath = tempPathFor(path);
+  const handle = await open(tempPath, "w");
+  try {
+    await handle.writeFile(data);
+    await handle.sync();
+  } catch (error) {
+    await handle.close();
+    await unlink(tempPath).catch(() => {});
+    throw error;
+  }
+  await handle.close();
+  await commit(tempPath, path, mode);
+}
+
+/**
+ * Copy a file atomically (temp file + fsync + rename)
+ */
+export async function copyFileAtomic(src: string, dest: string, mode?: number): Promise<void> {
+  const tempPath = tempPathFor(dest);
+  try {
+    await copyFile(src, tempPath);
+    await fsyncPath(tempPath);
+  } catch (error) {
+    await unlink(tempPath).catch(() => {});
+    throw error;
+  }
+  await commit(tempPath, dest, mode);
+}
+
+/**
+ * SHA-256 of a buffer, as lowercase hex
+ */
+export function sha256(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * SHA-256 of a file's contents, as lowercase hex
+ */
+export async function sha256File(path: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(path)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest("hex");
+}
@@ -0,0 +1,273 @@
+/**
+ * Garbage Collection
+ *
+ * `gc` cross-references ~/.droid-patch with the alias registry and removes what
+ * no alias uses any more: patched binaries (in bins/ and the binary store),
+ * wrapper and proxy scripts, legacy
+ * websearch/ and statusline/ files, metadata and generations of aliases that are
+ * gone, and temp files left by interrupted writes.
+ */
+
+import { existsSync, lstatSync } from "node:fs";
+import { readdir, rm } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { styleText } from "node:util";
+import { loadAliasRegistry } from "./alias.ts";
+import { findUnusedStoreEntries, listStoredBinaries } from "./binary-store.ts";
+
+const DROID_PATCH_DIR = join(homedir(), ".droid-patch");
+
+export type GarbageKind =
+  | "binary"
+  | "stored binary"
+  | "wrapper"
+  | "proxy script"
+  | "legacy"
+  | "metadata"
+  | "generations"
+  | "temp file";
+
+export interface GarbageItem {
+  /** File or directory to delete */
+  path: string;
+  kind: GarbageKind;
+  /** Alias the file belonged to, if it can be told from the name */
+  alias?: string;
+  /**
+   * Bytes freed by deleting it, directories included recursively. A binary shared
+   * through hard links counts once, and only if all its links are garbage.
+   */
+  size: number;
+}
+
+export interface GarbageReport {
+  items: GarbageItem[];
+  /** Total size of all items */
+  reclaimableBytes: number;
+  /** Whether the items were deleted */
+  removed: boolean;
+}
+
+// Atomic writes leave .<name>.tmp-<suffix> behind when interrupted (see fs-utils.ts)
+const TEMP_FILE = /^\..+\.tmp-[\w-]+$/;
+
+// Alias files in proxy/, websearch/ and statusline/, by suffix
+const ALIAS_FILE_SUFFIXES: Array<[suffix: string, kind: GarbageKind]> = [
+  ["-proxy.js", "proxy script"],
+  ["-preload.js", "legacy"],
+  ["-statusline.js", "legacy"],
+  ["-sessions.js", "legacy"],
+  [".cmd", "wrapper"],
+];
+
+function splitAliasFile(file: string): { alias: string; kind: GarbageKind } {
+  for (const [suffix, kind] of ALIAS_FILE_SUFFIXES) {
+    if (file.endsWith(suffix)) return { alias: file.slice(0, -suffix.length), kind };
+  }
+  return { alias: file, kind: "wrapper" };
+}
+
+interface FileInfo {
+  ino: number;
+  nlink: number;
+  size: number;
+}
+
+/**
+ * Every file at or below path
+ */
+async function listFiles(path: string): Promise<FileInfo[]> {
+  const stats = lstatSync(path, { throwIfNoEntry: false });
+  if (!stats) return [];
+  if (!stats.isDirectory()) return [{ ino: stats.ino, nlink: stats.nlink, size: stats.size }];
+  const files: FileInfo[] = [];
+  for (const entry of await readdir(path)) {
+    files.push(...(await listFiles(join(path, entry))));
+  }
+  return files;
+}
+
+async function listDir(dir: string): Promise<string[]> {
+  if (!existsSync(dir)) return [];
+  try {
+    return await readdir(dir);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Names of aliases that still exist: linked from a PATH or aliases directory,
+ * or with metadata whose alias path is still on disk
+ */
+async function liveAliasNames(): Promise<{ live: Set<string>; targets: Set<string> }> {
+  const { aliases } = await loadAliasRegistry();
+  const live = new Set<string>();
+  const targets = new Set<string>();
+  for (const alias of aliases) {
+    const aliasPath = alias.metadata?.aliasPath;
+    if (alias.links.length > 0 || (aliasPath && lstatSync(aliasPath, { throwIfNoEntry: false }))) {
+      live.add(alias.name);
+    }
+    for (const link of alias.links) {
+      targets.add(resolve(link.location, link.target));
+    }
+  }
+  return { live, targets };
+}
+
+/**
+ * Find unreferenced files under ~/.droid-patch
+ */
+export async function findGarbage(): Promise<GarbageItem[]> {
+  const { live, targets } = await liveAliasNames();
+  const candidates: Array<Omit<GarbageItem, "size">> = [];
+  const isUsed = (path: string, alias: string) => live.has(alias) || targets.has(path);
+
+  for (const dirName of ["bins", "proxy", "meta"]) {
+    const dir = join(DROID_PATCH_DIR, dirName);
+    for (const file of await listDir(dir)) {
+      const path = join(dir, file);
+      if (TEMP_FILE.test(file)) {
+        candidates.push({ path, kind: "temp file" });
+        continue;
+      }
+      if (dirName === "bins") {
+        // <alias>-patched, plus droid-replace.patched left by an interrupted `replace`.
+        // Anything else is left alone, notably the legacy droid-original-latest backup
+        // that restoreOriginal() still falls back to.
+        const alias = /^(.+)-patched(\.exe)?$/.exec(file)?.[1];
+        if (alias) {
+          if (!isUsed(path, alias)) candidates.push({ path, kind: "binary", alias });
+        } else if (file === "droid-replace.patched" && !targets.has(path)) {
+          candidates.push({ path, kind: "binary" });
+        }
+      } else if (dirName === "proxy") {
+        const { alias, kind } = splitAliasFile(file);
+        if (!isUsed(path, alias)) candidates.push({ path, kind, alias });
+      } else if (file.endsWith(".json")) {
+        const alias = file.slice(0, -".json".length);
+        if (!live.has(alias)) candidates.push({ path, kind: "metadata", alias });
+      }
+    }
+  }
+
+  // Legacy directories: removed whole once no alias uses them
+  for (const dirName of ["websearch", "statusline"]) {
+    const dir = join(DROID_PATCH_DIR, dirName);
+    const files = await listDir(dir);
+    const unused = files.filter((file) => !isUsed(join(dir, file), splitAliasFile(file).alias));
+    if (files.length > 0 && unused.length === files.length) {
+      candidates.push({ path: dir, kind: "legacy" });
+    } else {
+      for (const file of unused) {
+        candidates.push({
+          path: join(dir, file),
+          kind: "legacy",
+          alias: splitAliasFile(file).alias,
+        });
+      }
+    }
+  }
+
+  const generationsDir = join(DROID_PATCH_DIR, "generations");
+  for (const alias of await listDir(generationsDir)) {
+    if (!live.has(alias)) {
+      candidates.push({ path: join(generationsDir, alias), kind: "generations", alias });
+    }
+  }
+
+  // metadata.json from versions before per-alias metadata
+  const legacyMetadata = join(DROID_PATCH_DIR, "metadata.json");
+  if (existsSync(legacyMetadata)) {
+    candidates.push({ path: legacyMetadata, kind: "legacy" });
+  }
+
+  // Hard-linked binaries only free space once every link to them goes
+  const files = new Map<string, FileInfo[]>();
+  const garbageLinks = new Map<number, number>();
+  const addFiles = async (path: string) => {
+    files.set(path, await listFiles(path));
+    for (const file of files.get(path)!) {
+      garbageLinks.set(file.ino, (garbageLinks.get(file.ino) ?? 0) + 1);
+    }
+  };
+  for (const candidate of candidates) {
+    await addFiles(candidate.path);
+  }
+
+  // Stored binaries whose links are all garbage (or that have none left)
+  const unusedStore = new Set(await findUnusedStoreEntries());
+  for (const entry of await listStoredBinaries()) {
+    const { ino } = lstatSync(entry.path);
+    if (entry.references <= (garbageLinks.get(ino) ?? 0)) unusedStore.add(dirname(entry.path));
+  }
+  for (const path of unusedStore) {
+    candidates.push({ path, kind: "stored binary" });
+    await addFiles(path);
+  }
+
+  const counted = new Set<number>();
+  return candidates.map((candidate) => {
+    let size = 0;
+    for (const file of files.get(candidate.path)!) {
+      if (garbageLinks.get(file.ino) === file.nlink && !counted.has(file.ino)) {
+        counted.add(file.ino);
+        size += file.size;
+      }
+    }
+    return { ...candidate, size };
+  });
+}
+
+/**
+ * Find unreferenced files and, unless dryRun is set, delete them
+ */
+export async function collectGarbage(options: { dryRun?: boolean } = {}): Promise<GarbageReport> {
+  const items = await findGarbage();
+  if (!options.dryRun) {
+    for (const item of items) {
+      await rm(item.path, { recursive: true, force: true });
+    }
+  }
+  return {
+    items,
+    reclaimableBytes: items.reduce((total, item) => total + item.size, 0),
+    removed: !options.dryRun,
+  };
+}
+
+/**
+ * Human-readable size, e.g. "112.4 MB"
+ */
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
+
+/**
+ * Print the garbage report as a table with a total
+ */
+export function printGarbageReport(report: GarbageReport): void {
+  if (report.items.length === 0) {
+    console.log(styleText("green", "[*] Nothing to clean up"));
+    return;
+  }
+
+  const kindWidth = Math.max(...report.items.map((item) => item.kind.length));
+  const sizeWidth = Math.max(...report.items.map((item) => formatSize(item.size).length));
+  for (const item of report.items) {
+    console.log(
+      `  ${formatSize(item.size).padStart(sizeWidth)}  ${styleText("yellow", item.kind.padEnd(kindWidth))}  ${item.path}`,
+    );
+  }
+  console.log();
+  const total = formatSize(report.reclaimableBytes);
+  console.log(
+    report.removed
+      ? styleText("green", `[*] Removed ${report.items.length} item(s), freed ${total}`)
+      : styleText("white", `[*] ${report.items.length} item(s), ${total} reclaimable`),
+  );
+}
@@ -0,0 +1,259 @@
+/**
+ * Alias Generations
+ *
+ * Before `update` re-patches an alias, its patched binary, wrapper files,
+ * symlink target and metadata are saved as a numbered generation under
+ * ~/.droid-patch/generations/<alias>/<n>/. `rollback` puts a generation back.
+ */
+
+import { existsSync, lstatSync } from "node:fs";
+import { mkdir, readdir, readFile, readlink, rename, rm, stat, symlink } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join, sep } from "node:path";
+import { linkBinary, pruneBinaryStore } from "./binary-store.ts";
+import { copyFileAtomic, writeFileAtomic } from "./fs-utils.ts";
+import { saveAliasMetadata, verifyAliasBinary, type AliasMetadata } from "./metadata.ts";
+
+const DROID_PATCH_DIR = join(homedir(), ".droid-patch");
+const GENERATIONS_DIR = join(DROID_PATCH_DIR, "generations");
+
+/** Generations kept per alias; older ones are dropped when a new one is saved */
+export const MAX_GENERATIONS = 5;
+
+export interface Generation {
+  /** Generation number, increasing with every update */
+  generation: number;
+  /** ISO timestamp when the generation was saved */
+  createdAt: string;
+  /** droid version the alias was patched from */
+  droidVersion?: string;
+  /** Where the alias symlink pointed */
+  aliasTarget?: string;
+  /** Saved files, relative to ~/.droid-patch */
+  files: string[];
+  /** Alias metadata at the time */
+  metadata: AliasMetadata;
+}
+
+/**
+ * Files under ~/.droid-patch that make up an alias (binary and wrapper)
+ */
+function aliasFiles(aliasName: string): string[] {
+  return [
+    join("bins", `${aliasName}-patched`),
+    join("bins", `${aliasName}-patched.exe`),
+    join("proxy", aliasName),
+    join("proxy", `${aliasName}.cmd`),
+    join("proxy", `${aliasName}-proxy.js`),
+  ];
+}
+
+/**
+ * Copy one alias file into or out of a generation. Binaries are hard-linked instead:
+ * they are never rewritten in place, and the link keeps their stored copy alive.
+ */
+async function copyAliasFile(file: string, source: string, dest: string): Promise<void> {
+  if (file.startsWith(`bins${sep}`)) {
+    await linkBinary(source, dest);
+  } else {
+    await copyFileAtomic(source, dest, (await stat(source)).mode & 0o777);
+  }
+}
+
+function generationDir(aliasName: string, generation: number): string {
+  return join(GENERATIONS_DIR, aliasName, String(generation));
+}
+
+/**
+ * List an alias's generations, oldest first
+ */
+export async function listGenerations(aliasName: string): Promise<Generation[]> {
+  const dir = join(GENERATIONS_DIR, aliasName);
+  if (!existsSync(dir)) return [];
+
+  const generations: Generation[] = [];
+  for (const name of await readdir(dir)) {
+    if (!/^\d+$/.test(name)) continue;
+    try {
+      const content = await readFile(join(dir, name, "generation.json"), "utf-8");
+      generations.push(JSON.parse(content) as Generation);
+    } catch {
+      // Incomplete generation
+    }
+  }
+  return generations.sort((a, b) => a.generation - b.generation);
+}
+
+/**
+ * Save the alias's current binary, wrapper, symlink target and metadata as a new generation
+ */
+export async function saveGeneration(meta: AliasMetadata): Promise<Generation> {
+  const existing = await listGenerations(meta.name);
+  const next = (existing.at(-1)?.generation ?? 0) + 1;
+  const dir = generationDir(meta.name, next);
+  await rm(dir, { recursive: true, force: true });
+
+  const files: string[] = [];
+  for (const file of aliasFiles(meta.name)) {
+    const source = join(DROID_PATCH_DIR, file);
+    if (!existsSync(source)) continue;
+    const dest = join(dir, "files", file);
+    await mkdir(dirname(dest), { recursive: true });
+    await copyAliasFile(file, source, dest);
+    files.push(file);
+  }
+
+  let aliasTarget: string | undefined;
+  if (meta.aliasPath && existsSync(meta.aliasPath) && lstatSync(meta.aliasPath).isSymbolicLink()) {
+    aliasTarget = await readlink(meta.aliasPath);
+  }
+
+  const generation: Generation = {
+    generation: next,
+    createdAt: new Date().toISOString(),
+    droidVersion: meta.droidVersion,
+    aliasTarget,
+    files,
+    metadata: structuredClone(meta),
+  };
+  // Written last: a generation without generation.json is ignored
+  await writeFileAtomic(join(dir, "generation.json"), JSON.stringify(generation, null, 2));
+
+  for (const old of existing.slice(0, Math.max(0, existing.length + 1 - MAX_GENERATIONS))) {
+    await rm(generationDir(meta.name, old.generation), { recursive: true, force: true });
+  }
+  await pruneBinaryStore();
+  return generation;
+}
+
+/**
+ * Restore a generation (default: the most recent one).
+ * Each file and the symlink are replaced atomically, metadata last. The restored
+ * generation and any newer ones are then discarded; `update` recreates them.
+ * A saved binary that no longer matches its recorded SHA-256 is refused unless
+ * options.force is set.
+ */
+export async function rollbackAlias(
+  aliasName: string,
+  to?: number,
+  options: { force?: boolean } = {},
+): Promise<Generation> {
+  const generations = await listGenerations(aliasName);
+  if (generations.length === 0) {
+    throw new Error(`No generations saved for alias "${aliasName}"`);
+  }
+  const target =
+    to === undefined ? generations.at(-1)! : generations.find((g) => g.generation === to);
+  if (!target) {
+    const available = generations.map((g) => g.generation).join(", ");
+    throw new Error(
+      `Generation ${to} not found for alias "${aliasName}" (available: ${available})`,
+    );
+  }
+
+  const dir = generationDir(aliasName, target.generation);
+  if (!options.force) {
+    const { status } = await verifyAliasBinary(target.metadata, join(dir, "files", "bins"));
+    if (status === "modified" || status === "missing") {
+      const problem =
+        status === "modified"
+          ? "a patched binary that does not match its recorded SHA-256"
+          : "no patched binary";
+      throw new Error(
+        `Generation ${target.generation} of "${aliasName}" has ${problem}; use --force to restore it anyway`,
+      );
+    }
+  }
+  for (const file of aliasFiles(aliasName)) {
+    const dest = join(DROID_PATCH_DIR, file);
+    if (target.files.includes(file)) {
+      const source = join(dir, "files", file);
+      await mkdir(dirname(dest), { recursive: true });
+      await copyAliasFile(file, source, dest);
+    } else if (existsSync(dest)) {
+      // The alias did not have this file yet (e.g. websearch was added later)
+      await rm(dest, { force: true });
+    }
+  }
+
+  const aliasPath = target.metadata.aliasPath;
+  if (aliasPath && target.aliasTarget) {
+    // Swap the symlink in one rename so the alias never disappears
+    const tempLink = `${aliasPath}.rollback-${process.pid}`;
+    await rm(tempLink, { force: true });
+    await symlink(target.aliasTarget, tempLink);
+    await rename(tempLink, aliasPath);
+  }
+
+  await saveAliasMetadata(target.metadata);
+
+  for (const g of generations.filter((g) => g.generation >= target.generation)) {
+    await rm(generationDir(aliasName, g.generation), { recursive: true, force: true });
+  }
+  await pruneBinaryStore();
+  return target;
+}
+
+/**
+ * Move an alias's generations to its new name after `rename`, so they can still be
+ * rolled back. Saved files are renamed, the absolute paths wrappers embed and the
+ * symlink target are rewritten, and the metadata takes the new name and alias path.
+ * Returns the number of generations moved.
+ */
+export async function renameGenerations(oldName: string, renamed: AliasMetadata): Promise<number> {
+  const generations = await listGenerations(oldName);
+  if (generations.length === 0) return 0;
+
+  const newFiles = aliasFiles(renamed.name);
+  const fileMap = new Map(aliasFiles(oldName).map((file, i) => [file, newFiles[i]]));
+  const pathMap = new Map(
+    [...fileMap].map(([from, to]) => [join(DROID_PATCH_DIR, from), join(DROID_PATCH_DIR, to)]),
+  );
+  // Longest first, so proxy/<old>-proxy.js is not matched as proxy/<old>
+  const oldPaths = [...pathMap.keys()].sort((a, b) => b.length - a.length);
+  const pathPattern = new RegExp(
+    oldPaths.map((path) => path.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|"),
+    "g",
+  );
+
+  for (const generation of generations) {
+    const dir = generationDir(oldName, generation.generation);
+    for (const file of generation.files) {
+      const source = join(dir, "files", file);
+      const dest = join(dir, "files", fileMap.get(file) ?? file);
+      if (!file.startsWith(`bins${sep}`)) {
+        const content = await readFile(source, "utf-8");
+        const mode = (await stat(source)).mode & 0o777;
+        await writeFileAtomic(
+          source,
+          content.replace(pathPattern, (path) => pathMap.get(path)!),
+          mode,
+        );
+      }
+      await rename(source, dest);
+    }
+    const moved: Generation = {
+      ...generation,
+      aliasTarget:
+        generation.aliasTarget && (pathMap.get(generation.aliasTarget) ?? generation.aliasTarget),
+      files: generation.files.map((file) => fileMap.get(file) ?? file),
+      metadata: { ...generation.metadata, name: renamed.name, aliasPath: renamed.aliasPath },
+    };
+    await writeFileAtomic(join(dir, "generation.json"), JSON.stringify(moved, null, 2));
+  }
+
+  // Anything already under the new name belongs to no alias (the name was free)
+  await rm(join(GENERATIONS_DIR, renamed.name), { recursive: true, force: true });
+  await rename(join(GENERATIONS_DIR, oldName), join(GENERATIONS_DIR, renamed.name));
+  return generations.length;
+}
+
+/**
+ * Delete all generations of an alias
+ */
+export async function removeGenerations(aliasName: string): Promise<boolean> {
+  const dir = join(GENERATIONS_DIR, aliasName);
+  if (!existsSync(dir)) return false;
+  await rm(dir, { recursive: true, force: true });
+  return true;
+}
@@ -1,10 +1,70 @@
 export { patchDroid } from "./patcher.ts";
-export type { Patch, PatchOptions, PatchDroidResult } from "./patcher.ts";
+export type {
+  Patch,
+  PatchOptions,
+  PatchDroidResult,
+  PatchEvent,
+  PatchExpectation,
+  PatchPadding,
+  PatchResult,
+  PatchVerification,
+} from "./patcher.ts";
+export { createConsoleReporter } from "./patch-reporter.ts";
+export type { ConsoleReporterOptions } from "./patch-reporter.ts";
+export { buildPatches, hasBinaryPatches, PATCH_SETS } from "./patches.ts";
+export type { BinaryPatchKey, PatchFlags } from "./patches.ts";
 export {
   createAlias,
   removeAlias,
   listAliases,
+  loadAliasRegistry,
+  queryAliases,
   replaceOriginal,
   restoreOriginal,
 } from "./alias.ts";
-export type { CreateAliasResult, ReplaceOriginalResult } from "./alias.ts";
+export type {
+  AliasInfo,
+  AliasLink,
+  AliasRegistry,
+  AliasSortKey,
+  AliasStatus,
+  CreateAliasResult,
+  ReplaceOriginalResult,
+} from "./alias.ts";
+export {
+  storeBackup,
+  listBackups,
+  findBackup,
+  findLatestBackup,
+  pruneBackups,
+  getBackupsDir,
+} from "./backup-store.ts";
+export type { BackupEntry } from "./backup-store.ts";
+export { loadPatchFile, parsePatchDefinitions, definitionsToPatches } from "./patch-file.ts";
+export type { PatchBytes, PatchDefinition } from "./patch-file.ts";
+export { listGenerations, saveGeneration, rollbackAlias, MAX_GENERATIONS } from "./generations.ts";
+export type { Generation } from "./generations.ts";
+export { runDoctor } from "./doctor.ts";
+export type { CheckStatus, DoctorCheck, DoctorOptions } from "./doctor.ts";
+export { collectGarbage, findGarbage } from "./gc.ts";
+export type { GarbageItem, GarbageKind, GarbageReport } from "./gc.ts";
+export { exportAliasConfigs, parseAliasConfigFile, readAliasConfigFile } from "./alias-config.ts";
+export type { AliasConfig, AliasConfigFile } from "./alias-config.ts";
+export {
+  binaryStoreKey,
+  listStoredBinaries,
+  patchSetHash,
+  pruneBinaryStore,
+} from "./binary-store.ts";
+export type { StoredBinary } from "./binary-store.ts";
+export { getDroidVersion, readEmbeddedDroidVersion } from "./droid-version.ts";
+export { findEmbeddedModule, parseStandaloneGraph, readStandaloneGraph } from "./bun-standalone.ts";
+export type { EmbeddedModule, ModuleEncoding, StandaloneModuleGraph } from "./bun-standalone.ts";
+export {
+  APPENDED_DATA,
+  detectExecutableFormat,
+  findJsSection,
+  findSection,
+  parseExecutableSections,
+} from "./executable-sections.ts";
+export type { ExecutableFormat, ExecutableSection } from "./executable-sections.ts";
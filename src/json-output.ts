@@ -0,0 +1,59 @@
+/**
+ * Machine-readable Output
+ *
+ * With --json, a command prints exactly one JSON document on stdout and no
+ * decorated console output. Every document has the same envelope:
+ * `{ command, ok, exitCode, ...data, errors }`.
+ */
+
+import { writeSync } from "node:fs";
+import { EXIT_CODES, type ExitCode } from "./exit-codes.ts";
+import type { PatchResult } from "./patcher.ts";
+
+let jsonMode = false;
+
+export function isJsonMode(): boolean {
+  return jsonMode;
+}
+
+/**
+ * Switch to JSON output: silence all console output so stdout only carries the document
+ */
+export function enableJsonMode(): void {
+  jsonMode = true;
+  const noop = () => {};
+  console.log = noop;
+  console.info = noop;
+  console.warn = noop;
+  console.error = noop;
+}
+
+/**
+ * Print the command's JSON document (in JSON mode) and exit with the given code
+ */
+export function finish(
+  command: string,
+  exitCode: ExitCode,
+  data: Record<string, unknown> = {},
+  errors: string[] = [],
+): never {
+  if (jsonMode) {
+    const doc = { command, ok: exitCode === EXIT_CODES.SUCCESS, exitCode, ...data, errors };
+    // Synchronous write: process.exit() could otherwise cut off a piped stdout
+    writeSync(1, `${JSON.stringify(doc, null, 2)}\n`);
+  }
+  process.exit(exitCode);
+}
+
+/**
+ * Per-patch results in their JSON form
+ */
+export function patchResultsToJson(results: PatchResult[]): Array<Record<string, unknown>> {
+  return results.map((r) => ({
+    name: r.name,
+    found: r.found,
+    alreadyPatched: !!r.alreadyPatched,
+    offsets: r.positions ?? [],
+    ...(r.rejected ? { rejected: r.rejected } : {}),
+  }));
+}
@@ -7,9 +7,11 @@
  */
 
 import { existsSync } from "node:fs";
-import { mkdir, readdir, readFile, unlink, writeFile } from "node:fs/promises";
+import { mkdir, readdir, readFile, unlink } from "node:fs/promises";
 import { homedir } from "node:os";
-import { join } from "node:path";
+import { dirname, join } from "node:path";
+import { sha256File, writeFileAtomic } from "./fs-utils.ts";
+import type { PatchDefinition } from "./patch-file.ts";
 
 /**
  * Metadata structure for an alias
@@ -29,6 +31,10 @@ export interface AliasMetadata {
   droidPatchVersion?: string;
   /** droid binary version */
   droidVersion?: string;
+  /** SHA-256 of the droid binary that was patched */
+  inputSha256?: string;
+  /** SHA-256 of the patched binary the alias runs (absent for wrapper-only aliases) */
+  outputSha256?: string;
   /** Patches that were applied */
   patches: {
     isCustom: boolean;
@@ -47,10 +53,41 @@ export interface AliasMetadata {
     /** Standalone mode: mock non-LLM Factory APIs */
     standalone?: boolean;
   };
+  /** User patch definitions loaded from --patch-file, re-applied by `update` */
+  customPatches?: PatchDefinition[];
+}
+
+/**
+ * Metadata for an in-place replacement of the installed droid binary
+ */
+export interface ReplacementMetadata {
+  /** Path of the droid binary that was replaced */
+  originalPath: string;
+  /** Versioned backup of the unpatched binary */
+  backupPath: string;
+  /** ISO timestamp when first replaced */
+  createdAt: string;
+  /** ISO timestamp when last (re-)applied */
+  updatedAt: string;
+  /** droid-patch version used for the replacement */
+  droidPatchVersion?: string;
+  /** droid binary version */
+  droidVersion?: string;
+  /** SHA-256 of the unpatched binary */
+  inputSha256?: string;
+  /** SHA-256 of the patched binary now at originalPath */
+  outputSha256?: string;
+  /** Patches that were applied */
+  patches: AliasMetadata["patches"];
+  /** User patch definitions loaded from --patch-file */
+  customPatches?: PatchDefinition[];
 }
 
 // Directory for storing metadata files
 const META_DIR = join(homedir(), ".droid-patch", "meta");
+const BINS_DIR = join(homedir(), ".droid-patch", "bins");
+// Kept outside META_DIR so it is never mistaken for an alias
+const REPLACEMENT_PATH = join(homedir(), ".droid-patch", "replacement.json");
 
 /**
  * Ensure metadata directory exists
@@ -74,7 +111,7 @@ function getMetaPath(aliasName: string): string {
 export async function saveAliasMetadata(meta: AliasMetadata): Promise<void> {
   await ensureMetaDir();
   const metaPath = getMetaPath(meta.name);
-  await writeFile(metaPath, JSON.stringify(meta, null, 2));
+  await writeFileAtomic(metaPath, JSON.stringify(meta, null, 2));
 }
 
 /**
@@ -94,6 +131,32 @@ export async function loadAliasMetadata(aliasName: string): Promise<AliasMetadat
   }
 }
 
+/**
+ * Result of comparing an alias's patched binary with its recorded SHA-256
+ * ok: the binary is unchanged
+ * modified: the binary was truncated or changed since it was written
+ * missing: a hash is recorded but the binary is gone
+ * unrecorded: no hash to compare with (wrapper-only alias or older metadata)
+ */
+export type AliasBinaryStatus = "ok" | "modified" | "missing" | "unrecorded";
+
+/**
+ * Check an alias's patched binary against meta.outputSha256
+ * binsDir defaults to ~/.droid-patch/bins; a saved generation passes its own copy.
+ */
+export async function verifyAliasBinary(
+  meta: AliasMetadata,
+  binsDir: string = BINS_DIR,
+): Promise<{ status: AliasBinaryStatus; path?: string }> {
+  if (!meta.outputSha256) return { status: "unrecorded" };
+  const path = [`${meta.name}-patched`, `${meta.name}-patched.exe`]
+    .map((file) => join(binsDir, file))
+    .find((file) => existsSync(file));
+  if (!path) return { status: "missing" };
+  const status = (await sha256File(path)) === meta.outputSha256 ? "ok" : "modified";
+  return { status, path };
+}
+
 /**
  * List all alias metadata
  */
@@ -132,6 +195,39 @@ export async function removeAliasMetadata(aliasName: string): Promise<boolean> {
   }
 }
 
+/**
+ * Save the in-place replacement record
+ */
+export async function saveReplacementMetadata(meta: ReplacementMetadata): Promise<void> {
+  await mkdir(dirname(REPLACEMENT_PATH), { recursive: true });
+  await writeFileAtomic(REPLACEMENT_PATH, JSON.stringify(meta, null, 2));
+}
+
+/**
+ * Load the in-place replacement record
+ * Returns null if droid has not been replaced
+ */
+export async function loadReplacementMetadata(): Promise<ReplacementMetadata | null> {
+  if (!existsSync(REPLACEMENT_PATH)) {
+    return null;
+  }
+  try {
+    const content = await readFile(REPLACEMENT_PATH, "utf-8");
+    return JSON.parse(content) as ReplacementMetadata;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove the in-place replacement record
+ */
+export async function removeReplacementMetadata(): Promise<void> {
+  if (existsSync(REPLACEMENT_PATH)) {
+    await unlink(REPLACEMENT_PATH);
+  }
+}
+
 /**
  * Create a new metadata object with current timestamp
  */
@@ -143,6 +239,9 @@ export function createMetadata(
     droidPatchVersion?: string;
     droidVersion?: string;
     aliasPath?: string;
+    customPatches?: PatchDefinition[];
+    inputSha256?: string;
+    outputSha256?: string;
   },
 ): AliasMetadata {
   const now = new Date().toISOString();
@@ -154,14 +253,20 @@ export function createMetadata(
     aliasPath: options?.aliasPath,
     droidPatchVersion: options?.droidPatchVersion,
     droidVersion: options?.droidVersion,
+    inputSha256: options?.inputSha256,
+    outputSha256: options?.outputSha256,
     patches,
+    ...(options?.customPatches?.length ? { customPatches: options.customPatches } : {}),
   };
 }
 
 /**
  * Format patches for display
  */
-export function formatPatches(patches: AliasMetadata["patches"]): string {
+export function formatPatches(
+  patches: AliasMetadata["patches"],
+  customPatches?: PatchDefinition[],
+): string {
   const applied: string[] = [];
   if (patches.isCustom) applied.push("isCustom");
   if (patches.skipLogin) applied.push("skipLogin");
@@ -183,5 +288,6 @@ export function formatPatches(patches: AliasMetadata["patches"]): string {
   if (patches.reasoningEffort) applied.push("reasoningEffort");
   if (patches.noTelemetry) applied.push("noTelemetry");
   if (patches.standalone) applied.push("standalone");
+  if (customPatches?.length) applied.push(`custom(${customPatches.map((p) => p.name).join(", ")})`);
   return applied.length > 0 ? applied.join(", ") : "(none)";
 }
@@ -44,6 +44,15 @@ export function generateModelId(displayName: string, index: number): string {
   return `custom:${normalized}-${index}`;
 }
 
+export interface SettingsInspection {
+  path: string;
+  exists: boolean;
+  /** Why the file cannot be used; loadSettings() treats such a file as empty */
+  error?: string;
+  /** Number of entries in customModels */
+  customModelCount: number;
+}
+
 /**
  * Load settings.json
  */
@@ -59,6 +68,42 @@ export function loadSettings(): FactorySettings {
   }
 }
 
+/**
+ * Check that settings.json parses and that customModels has the expected shape
+ */
+export function inspectSettings(): SettingsInspection {
+  const result: SettingsInspection = {
+    path: SETTINGS_PATH,
+    exists: existsSync(SETTINGS_PATH),
+    customModelCount: 0,
+  };
+  if (!result.exists) return result;
+
+  let settings: unknown;
+  try {
+    settings = JSON.parse(readFileSync(SETTINGS_PATH, "utf-8"));
+  } catch (error) {
+    return { ...result, error: `Invalid JSON: ${(error as Error).message}` };
+  }
+  if (typeof settings !== "object" || settings === null || Array.isArray(settings)) {
+    return { ...result, error: "Top level is not a JSON object" };
+  }
+
+  const models = (settings as FactorySettings).customModels;
+  if (models === undefined) return result;
+  if (!Array.isArray(models)) {
+    return { ...result, error: "customModels is not an array" };
+  }
+  const required = ["model", "baseUrl", "displayName", "provider"] as const;
+  for (const [i, model] of models.entries()) {
+    const missing = required.filter((key) => typeof model?.[key] !== "string");
+    if (missing.length > 0) {
+      return { ...result, error: `customModels[${i}] is missing ${missing.join(", ")}` };
+    }
+  }
+  return { ...result, customModelCount: models.length };
+}
+
 /**
  * Save settings.json
  */
@@ -246,12 +291,31 @@ export function getDefaultModel(): string | undefined {
   return settings.sessionDefaultSettings?.model;
 }
 
+/**
+ * Custom models with API keys masked, for display and --json output
+ */
+export function getModelsListing(): {
+  models: Array<CustomModel & { isDefault: boolean }>;
+  defaultModel: string | null;
+  settingsPath: string;
+} {
+  const defaultModel = getDefaultModel();
+  return {
+    models: listModels().map((model) => ({
+      ...model,
+      apiKey: `${model.apiKey.substring(0, 8)}...`,
+      isDefault: model.id === defaultModel,
+    })),
+    defaultModel: defaultModel ?? null,
+    settingsPath: SETTINGS_PATH,
+  };
+}
+
 /**
  * Print models list with detailed info
  */
 export function printModelsList(): void {
-  const models = listModels();
-  const defaultModel = getDefaultModel();
+  const { models, settingsPath } = getModelsListing();
 
   console.log(styleText("cyan", "═".repeat(60)));
   console.log(styleText(["cyan", "bold"], "  Custom Models"));
@@ -268,8 +332,7 @@ export function printModelsList(): void {
 
     for (let i = 0; i < models.length; i++) {
       const model = models[i];
-      const isDefault = model.id === defaultModel;
-      const defaultMark = isDefault ? styleText("green", " [DEFAULT]") : "";
+      const defaultMark = model.isDefault ? styleText("green", " [DEFAULT]") : "";
       const indexMark = styleText("gray", `[${i}]`);
 
       console.log(`  ${indexMark} ${styleText(["cyan", "bold"], model.displayName)}${defaultMark}`);
@@ -277,12 +340,12 @@ export function printModelsList(): void {
       console.log(styleText("gray", `      Model:    ${model.model}`));
       console.log(styleText("gray", `      Provider: ${model.provider}`));
       console.log(styleText("gray", `      Base URL: ${model.baseUrl}`));
-      console.log(styleText("gray", `      API Key:  ${model.apiKey.substring(0, 8)}...`));
+      console.log(styleText("gray", `      API Key:  ${model.apiKey}`));
       console.log();
     }
   }
 
-  console.log(styleText("gray", `  Settings file: ${SETTINGS_PATH}`));
+  console.log(styleText("gray", `  Settings file: ${settingsPath}`));
   console.log();
 }
 
@@ -0,0 +1,352 @@
+/**
+ * User Patch Files
+ *
+ * Loads declarative patch definitions from JSON/YAML files so one-off byte patches
+ * can be applied without changing droid-patch itself. A patch file is either a list
+ * of definitions or an object with a `patches` list:
+ *
+ *   patches:
+ *     - name: myPatch
+ *       description: Flip a feature flag
+ *       pattern: "enableFoo:!1"
+ *       replacement: "enableFoo:!0"
+ *     - name: myRegexPatch
+ *       regexPattern: 'foo\(([a-z])\)'
+ *       regexReplacement: "bar($1)"
+ *
+ * Literal values are UTF-8 text, or `{ hex: "..." }` for raw bytes.
+ * Files passed to --patch-file are looked up as a path first, then by name
+ * in ~/.droid-patch/patches/.
+ */
+
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { basename, extname, join, resolve } from "node:path";
+import { parse as parseYaml } from "yaml";
+import type { Patch, PatchExpectation, PatchPadding } from "./patcher.ts";
+
+// Directory for user patch files
+export const PATCHES_DIR = join(homedir(), ".droid-patch", "patches");
+
+const PATCH_FILE_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+/**
+ * A literal byte sequence: UTF-8 text or hex-encoded bytes
+ */
+export type PatchBytes = string | { hex: string };
+
+/**
+ * Serializable patch definition, as written in a patch file and stored in alias metadata
+ */
+export interface PatchDefinition {
+  name: string;
+  description?: string;
+  pattern?: PatchBytes;
+  replacement?: PatchBytes;
+  variants?: Array<{ pattern: PatchBytes; replacement: PatchBytes }>;
+  /** Regex source (without slashes); use $1, $2, etc. in regexReplacement */
+  regexPattern?: string;
+  /** Regex flags, e.g. "i" */
+  regexFlags?: string;
+  regexReplacement?: string;
+  alreadyPatchedRegexPattern?: string;
+  padding?: PatchPadding;
+  /** Occurrence count and context checks, see PatchExpectation */
+  expect?: {
+    exact?: number;
+    min?: number;
+    max?: number;
+    before?: PatchBytes;
+    after?: PatchBytes;
+  };
+}
+
+/**
+ * Resolve a --patch-file argument: an existing path, or the name of a file
+ * in ~/.droid-patch/patches/ (with or without extension)
+ */
+export function resolvePatchFile(ref: string): string {
+  if (existsSync(ref)) {
+    return resolve(ref);
+  }
+  for (const candidate of [ref, ...PATCH_FILE_EXTENSIONS.map((ext) => `${ref}${ext}`)]) {
+    const path = join(PATCHES_DIR, candidate);
+    if (existsSync(path)) {
+      return path;
+    }
+  }
+  throw new Error(`Patch file not found: ${ref} (also looked in ${PATCHES_DIR})`);
+}
+
+/**
+ * Resolve, read and validate every --patch-file argument into one list of definitions
+ */
+export async function loadPatchFiles(refs: string[]): Promise<PatchDefinition[]> {
+  const definitions: PatchDefinition[] = [];
+  for (const ref of refs) {
+    const path = resolvePatchFile(ref);
+    for (const def of await loadPatchFile(path)) {
+      if (definitions.some((d) => d.name === def.name)) {
+        throw new Error(
+          `${basename(path)}: patch "${def.name}" is already defined by another file`,
+        );
+      }
+      definitions.push(def);
+    }
+  }
+  return definitions;
+}
+
+/**
+ * Read and validate a patch file
+ */
+export async function loadPatchFile(path: string): Promise<PatchDefinition[]> {
+  const content = await readFile(path, "utf-8");
+  let data: unknown;
+  try {
+    data = extname(path).toLowerCase() === ".json" ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`${basename(path)}: ${(error as Error).message}`);
+  }
+  return parsePatchDefinitions(data, basename(path));
+}
+
+/**
+ * Validate raw patch file data into patch definitions
+ */
+export function parsePatchDefinitions(data: unknown, source: string): PatchDefinition[] {
+  const list = isObject(data) && "patches" in data ? data.patches : data;
+  if (!Array.isArray(list)) {
+    throw new Error(`${source}: expected a list of patches or an object with a "patches" list`);
+  }
+
+  const definitions = list.map((entry, i) => parseDefinition(entry, `${source}: patches[${i}]`));
+
+  const seen = new Set<string>();
+  for (const def of definitions) {
+    if (seen.has(def.name)) {
+      throw new Error(`${source}: duplicate patch name "${def.name}"`);
+    }
+    seen.add(def.name);
+  }
+  return definitions;
+}
+
+/**
+ * Convert patch definitions into patches for patchDroid
+ */
+export function definitionsToPatches(definitions: PatchDefinition[]): Patch[] {
+  return definitions.map((def) => {
+    const patch: Patch = {
+      name: def.name,
+      description: def.description || `User patch: ${def.name}`,
+      pattern: def.pattern !== undefined ? toBuffer(def.pattern) : Buffer.from(""),
+      replacement: def.replacement !== undefined ? toBuffer(def.replacement) : Buffer.from(""),
+    };
+    if (def.variants) {
+      patch.variants = def.variants.map((v) => ({
+        pattern: toBuffer(v.pattern),
+        replacement: toBuffer(v.replacement),
+      }));
+    }
+    if (def.regexPattern !== undefined) {
+      patch.regexPattern = new RegExp(def.regexPattern, def.regexFlags);
+      patch.regexReplacement = def.regexReplacement;
+    }
+    if (def.alreadyPatchedRegexPattern !== undefined) {
+      patch.alreadyPatchedRegexPattern = new RegExp(def.alreadyPatchedRegexPattern, def.regexFlags);
+    }
+    if (def.padding) {
+      patch.padding = def.padding;
+    }
+    if (def.expect) {
+      const { before, after, ...counts } = def.expect;
+      const expect: PatchExpectation = { ...counts };
+      if (before !== undefined) expect.before = toBuffer(before);
+      if (after !== undefined) expect.after = toBuffer(after);
+      patch.expect = expect;
+    }
+    return patch;
+  });
+}
+
+function parseDefinition(entry: unknown, where: string): PatchDefinition {
+  if (!isObject(entry)) {
+    throw new Error(`${where}: expected an object`);
+  }
+
+  const known = new Set([
+    "name",
+    "description",
+    "pattern",
+    "replacement",
+    "variants",
+    "regexPattern",
+    "regexFlags",
+    "regexReplacement",
+    "alreadyPatchedRegexPattern",
+    "padding",
+    "expect",
+  ]);
+  for (const key of Object.keys(entry)) {
+    if (!known.has(key)) {
+      throw new Error(`${where}: unknown field "${key}"`);
+    }
+  }
+
+  if (typeof entry.name !== "string" || !/^[A-Za-z0-9_.-]+$/.test(entry.name)) {
+    throw new Error(`${where}.name: must be a non-empty string of letters, digits, _ . -`);
+  }
+  const def: PatchDefinition = { name: entry.name };
+  where = `${where} (${entry.name})`;
+
+  if (entry.description !== undefined) {
+    if (typeof entry.description !== "string") {
+      throw new Error(`${where}.description: must be a string`);
+    }
+    def.description = entry.description;
+  }
+
+  if (entry.padding !== undefined) {
+    if (entry.padding !== "space" && entry.padding !== "comment") {
+      throw new Error(`${where}.padding: must be "space" or "comment"`);
+    }
+    def.padding = entry.padding;
+  }
+
+  if (entry.expect !== undefined) {
+    def.expect = parseExpectation(entry.expect, `${where}.expect`);
+  }
+
+  const hasRegex = entry.regexPattern !== undefined || entry.regexReplacement !== undefined;
+  const hasLiteral = entry.pattern !== undefined || entry.replacement !== undefined;
+
+  if (hasRegex) {
+    if (hasLiteral || entry.variants !== undefined) {
+      throw new Error(`${where}: use either regexPattern or pattern/variants, not both`);
+    }
+    if (typeof entry.regexPattern !== "string" || entry.regexPattern === "") {
+      throw new Error(`${where}.regexPattern: must be a non-empty string`);
+    }
+    if (typeof entry.regexReplacement !== "string" || entry.regexReplacement === "") {
+      throw new Error(`${where}.regexReplacement: must be a non-empty string`);
+    }
+    if (entry.regexFlags !== undefined) {
+      if (typeof entry.regexFlags !== "string") {
+        throw new Error(`${where}.regexFlags: must be a string`);
+      }
+      def.regexFlags = entry.regexFlags;
+    }
+    def.regexPattern = entry.regexPattern;
+    def.regexReplacement = entry.regexReplacement;
+    checkRegex(def.regexPattern, def.regexFlags, `${where}.regexPattern`);
+  } else {
+    if (entry.regexFlags !== undefined) {
+      throw new Error(`${where}.regexFlags: only valid with regexPattern`);
+    }
+    if (hasLiteral) {
+      def.pattern = parseBytes(entry.pattern, `${where}.pattern`);
+      def.replacement = parseBytes(entry.replacement, `${where}.replacement`);
+    }
+    if (entry.variants !== undefined) {
+      if (!Array.isArray(entry.variants)) {
+        throw new Error(`${where}.variants: must be a list`);
+      }
+      def.variants = entry.variants.map((variant: unknown, i: number) => {
+        if (!isObject(variant)) {
+          throw new Error(`${where}.variants[${i}]: expected an object`);
+        }
+        return {
+          pattern: parseBytes(variant.pattern, `${where}.variants[${i}].pattern`),
+          replacement: parseBytes(variant.replacement, `${where}.variants[${i}].replacement`),
+        };
+      });
+    }
+    if (!def.pattern && !def.variants?.length) {
+      throw new Error(`${where}: needs pattern/replacement, variants, or regexPattern`);
+    }
+    // patchDroid always tries the primary pattern first, so it must be present
+    if (!def.pattern && def.variants) {
+      const [first, ...rest] = def.variants;
+      def.pattern = first.pattern;
+      def.replacement = first.replacement;
+      if (rest.length > 0) def.variants = rest;
+      else delete def.variants;
+    }
+  }
+
+  if (entry.alreadyPatchedRegexPattern !== undefined) {
+    if (!hasRegex) {
+      throw new Error(`${where}.alreadyPatchedRegexPattern: only valid with regexPattern`);
+    }
+    if (typeof entry.alreadyPatchedRegexPattern !== "string") {
+      throw new Error(`${where}.alreadyPatchedRegexPattern: must be a string`);
+    }
+    def.alreadyPatchedRegexPattern = entry.alreadyPatchedRegexPattern;
+    checkRegex(
+      def.alreadyPatchedRegexPattern,
+      def.regexFlags,
+      `${where}.alreadyPatchedRegexPattern`,
+    );
+  }
+
+  return def;
+}
+
+function parseExpectation(value: unknown, where: string): NonNullable<PatchDefinition["expect"]> {
+  if (!isObject(value)) {
+    throw new Error(`${where}: expected an object`);
+  }
+  const expect: NonNullable<PatchDefinition["expect"]> = {};
+  for (const key of Object.keys(value)) {
+    const field = value[key];
+    if (key === "exact" || key === "min" || key === "max") {
+      if (typeof field !== "number" || !Number.isInteger(field) || field < 0) {
+        throw new Error(`${where}.${key}: must be a non-negative integer`);
+      }
+      expect[key] = field;
+    } else if (key === "before" || key === "after") {
+      expect[key] = parseBytes(field, `${where}.${key}`);
+    } else {
+      throw new Error(`${where}: unknown field "${key}"`);
+    }
+  }
+  if (expect.min !== undefined && expect.max !== undefined && expect.min > expect.max) {
+    throw new Error(`${where}: min must not be greater than max`);
+  }
+  return expect;
+}
+
+function parseBytes(value: unknown, where: string): PatchBytes {
+  if (typeof value === "string") {
+    if (value === "") {
+      throw new Error(`${where}: must not be empty`);
+    }
+    return value;
+  }
+  if (isObject(value) && typeof value.hex === "string") {
+    const hex = value.hex.replace(/\s+/g, "");
+    if (hex === "" || hex.length % 2 !== 0 || !/^[0-9a-fA-F]+$/.test(hex)) {
+      throw new Error(`${where}.hex: must be an even number of hex digits`);
+    }
+    return { hex };
+  }
+  throw new Error(`${where}: must be a string or { hex: "..." }`);
+}
+
+function checkRegex(source: string, flags: string | undefined, where: string): void {
+  try {
+    new RegExp(source, flags);
+  } catch (error) {
+    throw new Error(`${where}: ${(error as Error).message}`);
+  }
+}
+
+function toBuffer(bytes: PatchBytes): Buffer {
+  return typeof bytes === "string" ? Buffer.from(bytes, "utf-8") : Buffer.from(bytes.hex, "hex");
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,200 @@
+/**
+ * Console Reporter
+ *
+ * Default consumer of patchDroid progress events: prints the coloured,
+ * human-readable output shown by the CLI.
+ */
+
+import { styleText } from "node:util";
+import type { PatchEvent } from "./patcher.ts";
+
+const MAX_MATCHES_SHOWN = 5;
+
+export interface ConsoleReporterOptions {
+  /** Print the bytes around each match */
+  verbose?: boolean;
+}
+
+/**
+ * Create an onEvent handler that prints patchDroid progress to the console
+ */
+export function createConsoleReporter(
+  options: ConsoleReporterOptions = {},
+): (event: PatchEvent) => void {
+  const { verbose = false } = options;
+  // The patch checks are followed by a blank line before the write phase
+  let afterChecks = false;
+
+  return (event) => {
+    switch (event.type) {
+      case "read": {
+        const fileSizeMB = (event.size / (1024 * 1024)).toFixed(2);
+        console.log(
+          styleText("white", `[*] Reading binary: ${styleText("cyan", event.inputPath)}`),
+        );
+        console.log(styleText("white", `[*] File size: ${styleText("cyan", fileSizeMB)} MB`));
+        console.log();
+        break;
+      }
+
+      case "module-graph": {
+        const sizeMB = (event.size / (1024 * 1024)).toFixed(2);
+        const offset = `0x${event.offset.toString(16).padStart(8, "0")}`;
+        const section = event.section ? ` in ${event.section}` : "";
+        console.log(
+          styleText(
+            "white",
+            `[*] Searching Bun module graph: ${styleText("cyan", sizeMB)} MB at ${offset}${section} (${event.modules} modules)`,
+          ),
+        );
+        console.log();
+        break;
+      }
+
+      case "patch-checked": {
+        const { result } = event;
+        afterChecks = true;
+        console.log(styleText("white", `[*] Checking patch: ${styleText("yellow", event.name)}`));
+        console.log(styleText("gray", `    ${event.description}`));
+        if (result.found === 0) {
+          console.log(styleText("yellow", `    ! Pattern not found - may already be patched`));
+          if (result.alreadyPatched) {
+            if (event.patchedOccurrences) {
+              console.log(
+                styleText(
+                  "blue",
+                  `    ✓ Found ${event.patchedOccurrences} occurrences of patched pattern`,
+                ),
+              );
+            }
+            console.log(styleText("blue", `    ✓ Binary appears to be already patched`));
+          }
+        } else {
+          const kind = event.regex ? " (regex)" : "";
+          console.log(styleText("green", `    ✓ Found ${result.found} occurrences${kind}`));
+        }
+        if (result.rejected) {
+          console.log(styleText("red", `    ✗ Rejected: ${result.rejected}`));
+        }
+        break;
+      }
+
+      case "match-found": {
+        if (!verbose || event.index >= MAX_MATCHES_SHOWN) break;
+        const offset = `0x${event.offset.toString(16).padStart(8, "0")}`;
+        const section = event.section ? ` [${event.section}]` : "";
+        console.log(styleText("gray", `      @ ${offset}${section}: ...${event.context}...`));
+        if (event.index === MAX_MATCHES_SHOWN - 1 && event.total > MAX_MATCHES_SHOWN) {
+          console.log(styleText("gray", `      ... and ${event.total - MAX_MATCHES_SHOWN} more`));
+        }
+        break;
+      }
+
+      case "backup-created":
+        if (afterChecks) {
+          console.log();
+          afterChecks = false;
+        }
+        if (event.existed) {
+          console.log(styleText("gray", `[*] Backup already exists: ${event.backupPath}`));
+        } else {
+          console.log(
+            styleText("white", `[*] Created backup: ${styleText("cyan", event.backupPath)}`),
+          );
+        }
+        break;
+
+      case "written":
+        if (afterChecks) {
+          console.log();
+          afterChecks = false;
+        }
+        console.log(styleText("white", "[*] Applying patches..."));
+        console.log(styleText("green", `[*] Applied ${event.patchedCount} patches`));
+        if (event.lockedPath) {
+          console.log(
+            styleText("yellow", `[!] Original file locked, saving to: ${event.outputPath}`),
+          );
+        }
+        console.log(
+          styleText("white", `[*] Patched binary saved: ${styleText("cyan", event.outputPath)}`),
+        );
+        console.log(styleText("gray", "[*] Set executable permission"));
+        break;
+
+      case "verified":
+        console.log();
+        console.log(styleText("white", "[*] Verifying patches..."));
+        for (const v of event.verifications) {
+          if (v.remaining > 0) {
+            console.log(
+              styleText("red", `    ✗ ${v.name}: ${v.remaining} occurrences not patched`),
+            );
+          } else if (v.regex) {
+            console.log(styleText("green", `    ✓ ${v.name}: Verified (regex)`));
+          } else {
+            console.log(styleText("green", `    ✓ ${v.name}: Verified (${v.patched} patched)`));
+          }
+        }
+        if (event.success) {
+          console.log();
+          console.log(styleText("green", "[+] All patches verified successfully!"));
+        }
+        break;
+
+      case "resigned":
+        console.log();
+        console.log(styleText("gray", "[*] Re-signing binary for macOS..."));
+        if (event.success) {
+          console.log(styleText("green", "[*] Binary re-signed successfully"));
+        } else {
+          console.log(styleText("yellow", "[!] Could not re-sign binary"));
+          console.log(
+            styleText(
+              "gray",
+              `  You may need to run: codesign --force --deep --sign - ${event.outputPath}`,
+            ),
+          );
+        }
+        break;
+
+      case "done": {
+        const { result } = event;
+        // Successful writes were already reported by the events above
+        if (result.patchedCount !== undefined) break;
+        console.log();
+
+        if (result.dryRun) {
+          console.log(styleText("blue", "─".repeat(60)));
+          console.log(styleText(["blue", "bold"], "  DRY RUN RESULTS"));
+          console.log(styleText("blue", "─".repeat(60)));
+          console.log();
+
+          for (const r of result.results) {
+            if (r.rejected) {
+              console.log(styleText("red", `  [✗] ${r.name}: Rejected - ${r.rejected}`));
+            } else if (r.alreadyPatched) {
+              console.log(styleText("blue", `  [✓] ${r.name}: Already patched`));
+            } else if (r.found > 0) {
+              console.log(
+                styleText("green", `  [✓] ${r.name}: ${r.found} occurrences will be patched`),
+              );
+            } else {
+              console.log(styleText("yellow", `  [!] ${r.name}: Pattern not found`));
+            }
+          }
+        } else if (result.rejected) {
+          console.log(styleText("red", "[!] Refusing to write: some patches failed their checks"));
+          for (const r of result.results) {
+            if (r.rejected) console.log(styleText("red", `    ${r.name}: ${r.rejected}`));
+          }
+        } else if (result.noPatchNeeded) {
+          console.log(styleText("blue", "[*] All patches already applied. Binary is up to date."));
+        } else {
+          console.log(styleText("yellow", "[!] No patches could be applied."));
+        }
+        break;
+      }
+    }
+  };
+}
@@ -1,8 +1,17 @@
-import { readFile, writeFile, copyFile, chmod, stat } from "node:fs/promises";
+import { readFile, stat } from "node:fs/promises";
 import { existsSync } from "node:fs";
 import { execSync } from "node:child_process";
-import { styleText } from "node:util";
 import { platform } from "node:os";
+import { storeBackup } from "./backup-store.ts";
+import { parseStandaloneGraph } from "./bun-standalone.ts";
+import {
+  findJsSection,
+  findSection,
+  parseExecutableSections,
+  type ExecutableSection,
+} from "./executable-sections.ts";
+import { sha256, sha256File, writeFileAtomic } from "./fs-utils.ts";
+import { createConsoleReporter } from "./patch-reporter.ts";
 
 const IS_WINDOWS = platform() === "win32";
 
@@ -16,27 +25,68 @@ export interface Patch {
     replacement: Buffer;
   }>;
   // Regex-based matching: use $1, $2, etc. in regexReplacement for capture groups
+  // Regexes are matched byte-wise (latin1), so non-ASCII text must be spelled as its UTF-8 bytes
   regexPattern?: RegExp;
   regexReplacement?: string;
   // Optional regex to detect already-patched binaries when regexPattern is not found.
   alreadyPatchedRegexPattern?: RegExp;
+  // Replacements must keep the exact byte length of what they overwrite, or the patch is
+  // rejected. Set this to let a shorter replacement be filled up to the original length.
+  padding?: PatchPadding;
+  // Checks the matches must pass before anything is written, so an unrelated match in a
+  // new droid build makes the patch fail instead of silently rewriting the wrong code
+  expect?: PatchExpectation;
 }
 
+/**
+ * Occurrence expectations for a patch. Counts apply to the matches of the regex or of
+ * the literal variant that matched; context bytes must surround every match.
+ */
+export interface PatchExpectation {
+  exact?: number;
+  min?: number;
+  max?: number;
+  /** Bytes that must appear immediately before each match */
+  before?: Buffer;
+  /** Bytes that must appear immediately after each match */
+  after?: Buffer;
+}
+
+/**
+ * How a shorter replacement is filled up to the length of the bytes it overwrites:
+ * - "space": trailing spaces
+ * - "comment": a trailing block comment (needs at least 4 spare bytes)
+ */
+export type PatchPadding = "space" | "comment";
+
 export interface PatchOptions {
   inputPath: string;
   outputPath?: string;
   patches: Patch[];
   dryRun?: boolean;
+  /** Back up the input binary into the backup store (~/.droid-patch/backups) */
   backup?: boolean;
   verbose?: boolean;
+  /** Receives progress events instead of the default console output */
+  onEvent?: (event: PatchEvent) => void;
+  /** Print nothing (when no onEvent is given) */
+  silent?: boolean;
+  /**
+   * Search the whole executable and accept matches in the native Bun runtime.
+   * By default only the embedded JavaScript is searched and matches elsewhere are rejected.
+   */
+  allowNativeMatches?: boolean;
 }
 
-interface PatchResult {
+export interface PatchResult {
   name: string;
   found: number;
+  /** Byte offsets of every match in the input file */
   positions?: number[];
   success: boolean;
   alreadyPatched?: boolean;
+  /** Why the patch was refused (e.g. it would change the file length or broke an expectation) */
+  rejected?: string;
 }
 
 export interface PatchDroidResult {
@@ -46,8 +96,71 @@ export interface PatchDroidResult {
   outputPath?: string;
   noPatchNeeded?: boolean;
   patchedCount?: number;
+  /** Names of patches that were refused; nothing is written when this is set */
+  rejected?: string[];
+  /** SHA-256 of the input binary */
+  inputSha256?: string;
+  /** SHA-256 of the written binary (after re-signing on macOS) */
+  outputSha256?: string;
 }
 
+export interface PatchVerification {
+  name: string;
+  /** Occurrences of the original pattern still present (0 when verified) */
+  remaining: number;
+  /** Occurrences of the replacement found (literal patches only) */
+  patched?: number;
+  regex?: boolean;
+}
+
+/**
+ * Progress events emitted by patchDroid, in order
+ */
+export type PatchEvent =
+  | { type: "read"; inputPath: string; size: number }
+  | {
+      type: "module-graph";
+      /** File offset and size of the embedded module graph the search is limited to */
+      offset: number;
+      size: number;
+      modules: number;
+      /** Executable section holding the graph, if known */
+      section?: string;
+    }
+  | {
+      type: "patch-checked";
+      name: string;
+      description: string;
+      result: PatchResult;
+      regex: boolean;
+      /** Occurrences of the replacement found when the pattern was missing */
+      patchedOccurrences?: number;
+    }
+  | {
+      type: "match-found";
+      name: string;
+      /** Index of this match among the patch's matches */
+      index: number;
+      total: number;
+      offset: number;
+      length: number;
+      /** Printable bytes around the match */
+      context: string;
+      /** Executable section the match is in, if known */
+      section?: string;
+    }
+  | { type: "backup-created"; backupPath: string; existed: boolean; sha256: string }
+  | {
+      type: "written";
+      outputPath: string;
+      patchedCount: number;
+      /** The requested output was locked (Windows), so the binary went to outputPath instead */
+      lockedPath?: string;
+    }
+  | { type: "verified"; verifications: PatchVerification[]; success: boolean }
+  | { type: "resigned"; outputPath: string; success: boolean }
+  | { type: "done"; result: PatchDroidResult };
+
 export async function patchDroid(options: PatchOptions): Promise<PatchDroidResult> {
   const {
     inputPath,
@@ -56,7 +169,16 @@ export async function patchDroid(options: PatchOptions): Promise<PatchDroidResul
     dryRun = false,
     backup = true,
     verbose = false,
+    silent = false,
+    allowNativeMatches = false,
   } = options;
+  const emit = options.onEvent ?? (silent ? () => {} : createConsoleReporter({ verbose }));
+  let inputSha256: string | undefined;
+  const finish = (partial: PatchDroidResult): PatchDroidResult => {
+    const result = inputSha256 ? { ...partial, inputSha256 } : partial;
+    emit({ type: "done", result });
+    return result;
+  };
 
   const finalOutputPath = outputPath || `${inputPath}.patched`;
 
@@ -65,14 +187,31 @@ export async function patchDroid(options: PatchOptions): Promise<PatchDroidResul
   }
 
   const stats = await stat(inputPath);
-  const fileSizeMB = (stats.size / (1024 * 1024)).toFixed(2);
-
-  console.log(styleText("white", `[*] Reading binary: ${styleText("cyan", inputPath)}`));
-  console.log(styleText("white", `[*] File size: ${styleText("cyan", fileSizeMB)} MB`));
-  console.log();
+  emit({ type: "read", inputPath, size: stats.size });
 
   const data = await readFile(inputPath);
   const buffer = Buffer.from(data);
+  inputSha256 = sha256(buffer);
+
+  // In a Bun standalone executable only the embedded module graph is searched,
+  // not the runtime around it. Where the graph cannot be parsed, the whole file is
+  // searched and matches outside the section holding the JS are rejected.
+  const sections = parseExecutableSections(buffer);
+  const graph = parseStandaloneGraph(buffer);
+  const graphRange = graph ? { start: graph.offset, end: graph.offset + graph.size } : undefined;
+  const range: SearchRange =
+    graphRange && !allowNativeMatches ? graphRange : { start: 0, end: buffer.length };
+  const jsRegion = allowNativeMatches ? undefined : (graphRange ?? findJsRegion(sections));
+  if (graph) {
+    const section = findSection(sections, graph.offset)?.name;
+    emit({
+      type: "module-graph",
+      offset: graph.offset,
+      size: graph.size,
+      modules: graph.modules.length,
+      ...(section ? { section } : {}),
+    });
+  }
 
   // Use a working buffer that gets updated after each patch application
   // This ensures later patches search against the already-patched content
@@ -80,84 +219,109 @@ export async function patchDroid(options: PatchOptions): Promise<PatchDroidResul
 
   const results: PatchResult[] = [];
 
+  const emitMatches = (name: string, matches: Array<{ offset: number; length: number }>) => {
+    for (const [index, { offset, length }] of matches.entries()) {
+      const context = getContext(workingBuffer, offset, length, 25);
+      const section = findSection(sections, offset)?.name;
+      emit({
+        type: "match-found",
+        name,
+        index,
+        total: matches.length,
+        offset,
+        length,
+        context,
+        ...(section ? { section } : {}),
+      });
+    }
+  };
+
   for (const patch of patches) {
-    console.log(styleText("white", `[*] Checking patch: ${styleText("yellow", patch.name)}`));
-    console.log(styleText("gray", `    ${patch.description}`));
+    const checked = { name: patch.name, description: patch.description };
 
     // Handle regex-based matching
-    // For binary files, convert pattern/replacement to Buffer and use findAllPositions
-    if (patch.regexPattern && patch.regexReplacement) {
-      const content = workingBuffer.toString("utf-8");
-      const regex = new RegExp(patch.regexPattern.source, "g");
-      const matches: Array<{ charIndex: number; match: string; replacement: string }> = [];
+    // Regexes run against a latin1 view of the buffer (one char per byte), so match
+    // indexes are exact byte offsets and identical matches are patched at their own positions
+    if (patch.regexPattern && patch.regexReplacement !== undefined) {
+      const content = workingBuffer.toString("latin1", range.start, range.end);
+      const regex = toGlobalRegex(patch.regexPattern);
+      const replacementTemplate = toLatin1(patch.regexReplacement);
+      const matches: Array<{ offset: number; match: string; replacement: string }> = [];
 
       let match;
       while ((match = regex.exec(content)) !== null) {
         const replacement = match[0].replace(
-          new RegExp(patch.regexPattern.source),
-          patch.regexReplacement,
+          new RegExp(patch.regexPattern.source, patch.regexPattern.flags.replace("g", "")),
+          replacementTemplate,
         );
         matches.push({
-          charIndex: match.index,
+          offset: range.start + match.index,
           match: match[0],
           replacement,
         });
+        // Avoid an infinite loop on zero-length matches
+        if (match[0].length === 0) regex.lastIndex++;
       }
 
       if (matches.length === 0) {
-        console.log(styleText("yellow", `    ! Pattern not found - may already be patched`));
         let alreadyPatched = false;
         if (patch.alreadyPatchedRegexPattern) {
-          const alreadyPatchedRegex = new RegExp(patch.alreadyPatchedRegexPattern.source, "g");
-          alreadyPatched = alreadyPatchedRegex.test(content);
+          alreadyPatched = toGlobalRegex(patch.alreadyPatchedRegexPattern).test(content);
         } else {
           // Fallback: look for a sample replacement pattern (best-effort heuristic).
-          const sampleReplacement = patch.regexReplacement.replace(/\$\d+/g, "X");
-          alreadyPatched = content.includes(sampleReplacement.slice(0, 20));
+          const sampleReplacement = replacementTemplate.replace(/\$\d+/g, "X");
+          alreadyPatched =
+            sampleReplacement !== "" && content.includes(sampleReplacement.slice(0, 20));
         }
-        results.push({
+        const rejected = alreadyPatched
+          ? undefined
+          : checkExpectation(patch.expect, workingBuffer, []);
+        const result: PatchResult = {
           name: patch.name,
           found: 0,
           success: alreadyPatched,
           alreadyPatched,
-        });
-        if (alreadyPatched) {
-          console.log(styleText("blue", `    ✓ Binary appears to be already patched`));
-        }
+          ...(rejected ? { rejected } : {}),
+        };
+        results.push(result);
+        emit({ type: "patch-checked", ...checked, result, regex: true });
         continue;
       }
 
-      console.log(styleText("green", `    ✓ Found ${matches.length} occurrences (regex)`));
-
-      if (!dryRun) {
-        // Apply regex replacement using Buffer.indexOf for accurate byte positions
-        for (const { match, replacement } of matches) {
-          const matchBuffer = Buffer.from(match, "utf-8");
-          const replacementBuffer = Buffer.from(replacement, "utf-8");
-
-          if (matchBuffer.length !== replacementBuffer.length) {
-            console.log(
-              styleText(
-                "yellow",
-                `    ! Warning: Length mismatch: ${matchBuffer.length} vs ${replacementBuffer.length}`,
-              ),
-            );
-          }
-
-          // Find the actual byte position in the buffer
-          const bytePos = workingBuffer.indexOf(matchBuffer);
-          if (bytePos !== -1) {
-            replacementBuffer.copy(workingBuffer, bytePos, 0, replacementBuffer.length);
-          }
+      const located = matches.map((m) => ({ offset: m.offset, length: m.match.length }));
+      let rejected =
+        checkRegion(jsRegion, sections, located) ??
+        checkExpectation(patch.expect, workingBuffer, located);
+
+      // Every replacement must fit its match exactly, otherwise the whole patch is rejected
+      const fitted: Buffer[] = [];
+      for (const { offset, match, replacement } of rejected ? [] : matches) {
+        const replacementBuffer = Buffer.from(replacement, "latin1");
+        const fit = fitReplacement(replacementBuffer, match.length, patch.padding);
+        if (!fit) {
+          rejected = lengthMismatchReason(replacementBuffer.length, match.length, offset, patch);
+          break;
         }
+        fitted.push(fit);
       }
 
-      results.push({
+      const result: PatchResult = {
         name: patch.name,
         found: matches.length,
-        positions: matches.map((m) => m.charIndex),
-        success: true,
-      });
+        positions: matches.map((m) => m.offset),
+        success: !rejected,
+        ...(rejected ? { rejected } : {}),
+      };
+      results.push(result);
+      emit({ type: "patch-checked", ...checked, result, regex: true });
+      emitMatches(patch.name, located);
+
+      if (!rejected && !dryRun) {
+        // Apply each replacement at the exact byte offset of its own match
+        for (const [i, { offset }] of matches.entries()) {
+          fitted[i].copy(workingBuffer, offset);
+        }
+      }
       continue;
     }
 
@@ -170,7 +334,7 @@ export async function patchDroid(options: PatchOptions): Promise<PatchDroidResul
     let positions: number[] = [];
     let matchedVariant: (typeof variants)[number] | undefined;
     for (const variant of variants) {
-      positions = findAllPositions(workingBuffer, variant.pattern);
+      positions = findAllPositions(workingBuffer, variant.pattern, range);
       if (positions.length > 0) {
         matchedVariant = variant;
         break;
@@ -178,29 +342,25 @@ export async function patchDroid(options: PatchOptions): Promise<PatchDroidResul
     }
 
     if (positions.length === 0) {
-      console.log(styleText("yellow", `    ! Pattern not found - may already be patched`));
-      results.push({
-        name: patch.name,
-        found: 0,
-        success: false,
-        alreadyPatched: variants.some((v) => workingBuffer.includes(v.replacement)),
-      });
-
-      let totalReplacementPositions = 0;
+      let patchedOccurrences = 0;
       for (const variant of variants) {
-        totalReplacementPositions += findAllPositions(workingBuffer, variant.replacement).length;
-      }
-      if (totalReplacementPositions > 0) {
-        console.log(
-          styleText(
-            "blue",
-            `    ✓ Found ${totalReplacementPositions} occurrences of patched pattern`,
-          ),
-        );
-        console.log(styleText("blue", `    ✓ Binary appears to be already patched`));
-        results[results.length - 1].alreadyPatched = true;
-        results[results.length - 1].success = true;
+        if (variant.replacement.length > 0) {
+          patchedOccurrences += findAllPositions(workingBuffer, variant.replacement, range).length;
+        }
       }
+      const alreadyPatched = patchedOccurrences > 0;
+      const rejected = alreadyPatched
+        ? undefined
+        : checkExpectation(patch.expect, workingBuffer, []);
+      const result: PatchResult = {
+        name: patch.name,
+        found: 0,
+        success: alreadyPatched,
+        alreadyPatched,
+        ...(rejected ? { rejected } : {}),
+      };
+      results.push(result);
+      emit({ type: "patch-checked", ...checked, result, regex: false, patchedOccurrences });
       continue;
     }
 
@@ -208,60 +368,54 @@ export async function patchDroid(options: PatchOptions): Promise<PatchDroidResul
       throw new Error(`Internal error: matchedVariant not set for patch ${patch.name}`);
     }
 
-    console.log(styleText("green", `    ✓ Found ${positions.length} occurrences`));
-
-    if (verbose) {
-      for (const pos of positions.slice(0, 5)) {
-        const context = getContext(workingBuffer, pos, matchedVariant.pattern.length, 25);
-        console.log(
-          styleText("gray", `      @ 0x${pos.toString(16).padStart(8, "0")}: ...${context}...`),
-        );
-      }
-      if (positions.length > 5) {
-        console.log(styleText("gray", `      ... and ${positions.length - 5} more`));
-      }
-    }
-
-    // Apply patch immediately to working buffer so later patches see updated content
-    if (!dryRun) {
-      for (const pos of positions) {
-        matchedVariant.replacement.copy(workingBuffer, pos);
-      }
+    const patternLength = matchedVariant.pattern.length;
+    const located = positions.map((offset) => ({ offset, length: patternLength }));
+    const replacement = fitReplacement(matchedVariant.replacement, patternLength, patch.padding);
+    let rejected =
+      checkRegion(jsRegion, sections, located) ??
+      checkExpectation(patch.expect, workingBuffer, located);
+    if (!rejected && !replacement) {
+      rejected = lengthMismatchReason(
+        matchedVariant.replacement.length,
+        patternLength,
+        positions[0],
+        patch,
+      );
     }
 
-    results.push({
+    const result: PatchResult = {
       name: patch.name,
       found: positions.length,
       positions,
-      success: true,
-    });
-  }
-
-  console.log();
+      success: !rejected,
+      ...(rejected ? { rejected } : {}),
+    };
+    results.push(result);
+    emit({ type: "patch-checked", ...checked, result, regex: false });
+    emitMatches(patch.name, located);
 
-  if (dryRun) {
-    console.log(styleText("blue", "─".repeat(60)));
-    console.log(styleText(["blue", "bold"], "  DRY RUN RESULTS"));
-    console.log(styleText("blue", "─".repeat(60)));
-    console.log();
-
-    for (const result of results) {
-      if (result.alreadyPatched) {
-        console.log(styleText("blue", `  [✓] ${result.name}: Already patched`));
-      } else if (result.found > 0) {
-        console.log(
-          styleText("green", `  [✓] ${result.name}: ${result.found} occurrences will be patched`),
-        );
-      } else {
-        console.log(styleText("yellow", `  [!] ${result.name}: Pattern not found`));
+    // Apply patch immediately to working buffer so later patches see updated content
+    if (!rejected && replacement && !dryRun) {
+      for (const pos of positions) {
+        replacement.copy(workingBuffer, pos);
       }
     }
+  }
 
-    return {
+  if (dryRun) {
+    const rejected = results.filter((r) => r.rejected).map((r) => r.name);
+    return finish({
       success: results.every((r) => r.success || r.alreadyPatched),
       dryRun: true,
       results,
-    };
+      ...(rejected.length > 0 ? { rejected } : {}),
+    });
+  }
+
+  // Refuse to write anything (including the backup) if any patch was rejected
+  const rejected = results.filter((r) => r.rejected);
+  if (rejected.length > 0) {
+    return finish({ success: false, results, rejected: rejected.map((r) => r.name) });
   }
 
   const patchesNeeded = results.filter((r) => r.found > 0 && !r.alreadyPatched);
@@ -269,42 +423,33 @@ export async function patchDroid(options: PatchOptions): Promise<PatchDroidResul
   if (patchesNeeded.length === 0) {
     const allPatched = results.every((r) => r.alreadyPatched);
     if (allPatched) {
-      console.log(styleText("blue", "[*] All patches already applied. Binary is up to date."));
-      return {
+      return finish({
         success: true,
         outputPath: inputPath,
         results,
         noPatchNeeded: true,
-      };
+      });
     }
-    console.log(styleText("yellow", "[!] No patches could be applied."));
-    return { success: false, results };
+    return finish({ success: false, results });
   }
 
   if (backup) {
-    const backupPath = `${inputPath}.backup`;
-    if (!existsSync(backupPath)) {
-      await copyFile(inputPath, backupPath);
-      console.log(styleText("white", `[*] Created backup: ${styleText("cyan", backupPath)}`));
-    } else {
-      console.log(styleText("gray", `[*] Backup already exists: ${backupPath}`));
-    }
+    const { entry, existed } = await storeBackup(inputPath);
+    emit({ type: "backup-created", backupPath: entry.path, existed, sha256: entry.sha256 });
   }
 
-  console.log(styleText("white", "[*] Applying patches..."));
   // Patches have already been applied to workingBuffer during the check phase
   // Count total patches applied
   const totalPatched = results.reduce((sum, r) => sum + (r.positions?.length || 0), 0);
 
-  console.log(styleText("green", `[*] Applied ${totalPatched} patches`));
-
   // Handle Windows file locking - if file is locked, use a new filename
   let actualOutputPath = finalOutputPath;
   try {
-    await writeFile(finalOutputPath, workingBuffer);
+    await writeFileAtomic(finalOutputPath, workingBuffer, 0o755);
   } catch (error) {
     const err = error as NodeJS.ErrnoException;
-    if (err.code === "EBUSY" && IS_WINDOWS) {
+    // Renaming over a running executable fails with EBUSY or EPERM on Windows
+    if ((err.code === "EBUSY" || err.code === "EPERM") && IS_WINDOWS) {
       // File is locked, generate new filename with timestamp
       const timestamp = Date.now();
       const ext = finalOutputPath.endsWith(".exe") ? ".exe" : "";
@@ -313,38 +458,30 @@ export async function patchDroid(options: PatchOptions): Promise<PatchDroidResul
         .replace(/\.patched$/, "")
         .replace(/-\d+$/, "");
       actualOutputPath = `${basePath}-${timestamp}${ext ? ext : ".patched"}`;
-      console.log(styleText("yellow", `[!] Original file locked, saving to: ${actualOutputPath}`));
-      await writeFile(actualOutputPath, workingBuffer);
+      await writeFileAtomic(actualOutputPath, workingBuffer, 0o755);
     } else {
       throw error;
     }
   }
-  console.log(
-    styleText("white", `[*] Patched binary saved: ${styleText("cyan", actualOutputPath)}`),
-  );
 
-  await chmod(actualOutputPath, 0o755);
-  console.log(styleText("gray", "[*] Set executable permission"));
+  emit({
+    type: "written",
+    outputPath: actualOutputPath,
+    patchedCount: totalPatched,
+    ...(actualOutputPath !== finalOutputPath ? { lockedPath: finalOutputPath } : {}),
+  });
 
-  console.log();
-  console.log(styleText("white", "[*] Verifying patches..."));
   const verifyBuffer = await readFile(actualOutputPath);
+  let outputSha256 = sha256(verifyBuffer);
+  const verifications: PatchVerification[] = [];
 
-  let allVerified = true;
   for (const patch of patches) {
     // Handle regex-based patches
-    if (patch.regexPattern && patch.regexReplacement) {
-      const content = verifyBuffer.toString("utf-8");
-      const oldMatches = [...content.matchAll(new RegExp(patch.regexPattern.source, "g"))];
+    if (patch.regexPattern && patch.regexReplacement !== undefined) {
+      const content = verifyBuffer.toString("latin1", range.start, range.end);
+      const oldMatches = [...content.matchAll(toGlobalRegex(patch.regexPattern))];
       // For verification, just check that the original pattern is no longer present
-      if (oldMatches.length === 0) {
-        console.log(styleText("green", `    ✓ ${patch.name}: Verified (regex)`));
-      } else {
-        console.log(
-          styleText("red", `    ✗ ${patch.name}: ${oldMatches.length} occurrences not patched`),
-        );
-        allVerified = false;
-      }
+      verifications.push({ name: patch.name, remaining: oldMatches.length, regex: true });
       continue;
     }
 
@@ -357,67 +494,194 @@ export async function patchDroid(options: PatchOptions): Promise<PatchDroidResul
     let newCount = 0;
     for (const variant of variants) {
       if (variant.pattern.length > 0) {
-        oldCount += findAllPositions(verifyBuffer, variant.pattern).length;
+        oldCount += findAllPositions(verifyBuffer, variant.pattern, range).length;
       }
       if (variant.replacement.length > 0) {
-        newCount += findAllPositions(verifyBuffer, variant.replacement).length;
+        newCount += findAllPositions(verifyBuffer, variant.replacement, range).length;
       }
     }
-
-    if (oldCount === 0) {
-      console.log(styleText("green", `    ✓ ${patch.name}: Verified (${newCount} patched)`));
-    } else {
-      console.log(styleText("red", `    ✗ ${patch.name}: ${oldCount} occurrences not patched`));
-      allVerified = false;
-    }
+    verifications.push({ name: patch.name, remaining: oldCount, patched: newCount });
   }
 
-  if (allVerified) {
-    console.log();
-    console.log(styleText("green", "[+] All patches verified successfully!"));
-  }
+  const allVerified = verifications.every((v) => v.remaining === 0);
+  emit({ type: "verified", verifications, success: allVerified });
 
   if (process.platform === "darwin") {
-    console.log();
+    let resigned = true;
     try {
-      console.log(styleText("gray", "[*] Re-signing binary for macOS..."));
       execSync(`codesign --force --deep --sign - "${finalOutputPath}"`, {
         stdio: "pipe",
       });
-      console.log(styleText("green", "[*] Binary re-signed successfully"));
     } catch {
-      console.log(styleText("yellow", "[!] Could not re-sign binary"));
-      console.log(
-        styleText(
-          "gray",
-          `  You may need to run: codesign --force --deep --sign - ${finalOutputPath}`,
-        ),
-      );
+      resigned = false;
     }
+    emit({ type: "resigned", outputPath: finalOutputPath, success: resigned });
 
     try {
       execSync(`xattr -cr "${finalOutputPath}"`, { stdio: "pipe" });
     } catch {
       // Ignore
     }
+    // Re-signing rewrites the binary
+    outputSha256 = await sha256File(actualOutputPath);
   }
 
-  return {
+  return finish({
     success: allVerified,
     outputPath: actualOutputPath,
     results,
     patchedCount: totalPatched,
-  };
+    outputSha256,
+  });
+}
+
+/**
+ * Check a patch's matches against its expectations.
+ * Returns the reason for the first violation, or undefined when all checks pass.
+ */
+function checkExpectation(
+  expect: PatchExpectation | undefined,
+  buffer: Buffer,
+  matches: Array<{ offset: number; length: number }>,
+): string | undefined {
+  if (!expect) return undefined;
+
+  const count = matches.length;
+  const plural = (n: number) => `${n} occurrence${n === 1 ? "" : "s"}`;
+  if (expect.exact !== undefined && count !== expect.exact) {
+    return `expected exactly ${plural(expect.exact)}, found ${count}`;
+  }
+  if (expect.min !== undefined && count < expect.min) {
+    return `expected at least ${plural(expect.min)}, found ${count}`;
+  }
+  if (expect.max !== undefined && count > expect.max) {
+    return `expected at most ${plural(expect.max)}, found ${count}`;
+  }
+
+  const { before, after } = expect;
+  for (const { offset, length } of matches) {
+    const at = `0x${offset.toString(16).padStart(8, "0")}`;
+    if (
+      before?.length &&
+      (offset < before.length || !buffer.subarray(offset - before.length, offset).equals(before))
+    ) {
+      return `match at ${at} is not preceded by the required context`;
+    }
+    if (
+      after?.length &&
+      !buffer.subarray(offset + length, offset + length + after.length).equals(after)
+    ) {
+      return `match at ${at} is not followed by the required context`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Where the embedded JS is in an executable whose module graph could not be parsed.
+ * Returns undefined for files that are not executables (e.g. an extracted bundle),
+ * which are patched whole, and an empty range when no section holds JS.
+ */
+function findJsRegion(sections: ExecutableSection[]): SearchRange | undefined {
+  if (sections.length === 0) return undefined;
+  const section = findJsSection(sections);
+  return section
+    ? { start: section.offset, end: section.offset + section.size }
+    : { start: 0, end: 0 };
+}
+
+/**
+ * Reject matches outside the embedded JS, naming the section of the first one
+ */
+function checkRegion(
+  jsRegion: SearchRange | undefined,
+  sections: ExecutableSection[],
+  matches: Array<{ offset: number; length: number }>,
+): string | undefined {
+  if (!jsRegion) return undefined;
+  const outside = matches.find(
+    ({ offset, length }) => offset < jsRegion.start || offset + length > jsRegion.end,
+  );
+  if (!outside) return undefined;
+  const at = `0x${outside.offset.toString(16).padStart(8, "0")}`;
+  const section = findSection(sections, outside.offset)?.name ?? "the executable headers";
+  return `match at ${at} is in ${section}, outside the embedded JavaScript`;
 }
 
-function findAllPositions(buffer: Buffer, pattern: Buffer): number[] {
+/**
+ * Fit a replacement to the exact length of the bytes it overwrites.
+ * Returns null when the lengths cannot be matched (never truncates).
+ */
+function fitReplacement(
+  replacement: Buffer,
+  targetLength: number,
+  padding?: PatchPadding,
+): Buffer | null {
+  const gap = targetLength - replacement.length;
+  if (gap === 0) return replacement;
+  if (gap < 0 || !padding) return null;
+
+  if (padding === "space") {
+    return Buffer.concat([replacement, Buffer.alloc(gap, " ")]);
+  }
+  // "comment": /*   */
+  if (gap < 4) return null;
+  return Buffer.concat([replacement, Buffer.from(`/*${" ".repeat(gap - 4)}*/`)]);
+}
+
+function lengthMismatchReason(
+  replacementLength: number,
+  matchLength: number,
+  offset: number,
+  patch: Patch,
+): string {
+  const hint = patch.padding
+    ? ` (cannot be fixed with "${patch.padding}" padding)`
+    : replacementLength < matchLength
+      ? " (set padding to fill it)"
+      : "";
+  return `replacement is ${replacementLength} bytes but match at 0x${offset.toString(16).padStart(8, "0")} is ${matchLength} bytes${hint}`;
+}
+
+/**
+ * Copy a regex with the global flag set, keeping its other flags
+ */
+function toGlobalRegex(regex: RegExp): RegExp {
+  return new RegExp(regex.source, regex.flags.includes("g") ? regex.flags : `${regex.flags}g`);
+}
+
+/**
+ * Re-encode a string as its UTF-8 bytes in latin1 form (one char per byte),
+ * so it can be compared against and written into a latin1 view of the binary
+ */
+function toLatin1(value: string): string {
+  return Buffer.from(value, "utf-8").toString("latin1");
+}
+
+/**
+ * Part of the file patches are searched in, as [start, end) byte offsets
+ */
+interface SearchRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Byte offsets in the file of every occurrence of pattern within range
+ */
+function findAllPositions(buffer: Buffer, pattern: Buffer, range: SearchRange): number[] {
+  // An empty pattern matches everywhere without advancing
+  if (pattern.length === 0) {
+    throw new Error("Cannot search for an empty pattern");
+  }
+  const view = buffer.subarray(range.start, range.end);
   const positions: number[] = [];
   let pos = 0;
 
   while (true) {
-    pos = buffer.indexOf(pattern, pos);
+    pos = view.indexOf(pattern, pos);
     if (pos === -1) break;
-    positions.push(pos);
+    positions.push(range.start + pos);
     pos += pattern.length;
   }
 
@@ -4,6 +4,8 @@
  * Priority: Smithery Exa > Google PSE > Tavily > Serper > Brave > SearXNG > DuckDuckGo
  */
 
+import { generateStandaloneMockCode } from "./websearch-standalone.ts";
+
 export function generateSearchProxyServerCode(): string {
   return `#!/usr/bin/env node
 // Droid WebSearch Proxy Server (External Providers Mode)
@@ -181,6 +183,7 @@ async function search(query, numResults) {
   return { results: [], source: 'none' };
 }
 
+${generateStandaloneMockCode()}
 // === HTTP Proxy Server ===
 
 const server = http.createServer(async (req, res) => {
@@ -211,6 +214,9 @@ const server = http.createServer(async (req, res) => {
     return;
   }
 
+  // Standalone mode: mock non-LLM APIs
+  if (handleStandaloneRequest(url, req, res)) return;
+
   // Proxy other requests
   const proxyUrl = new URL(FACTORY_API + url.pathname + url.search);
   const proxyModule = proxyUrl.protocol === 'https:' ? https : http;
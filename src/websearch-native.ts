@@ -11,6 +11,8 @@
  * - OpenAI: web_search tool, results in message.content[].annotations[] as url_citation
  */
 
+import { generateStandaloneMockCode } from "./websearch-standalone.ts";
+
 export function generateNativeSearchProxyServer(
   factoryApiUrl: string = "https://api.factory.ai",
 ): string {
@@ -198,6 +200,7 @@ async function search(query, numResults) {
   return { results: [], source: 'none' };
 }
 
+${generateStandaloneMockCode()}
 // === HTTP Proxy Server ===
 
 const server = http.createServer(async (req, res) => {
@@ -229,26 +232,7 @@ const server = http.createServer(async (req, res) => {
   }
 
   // Standalone mode: mock non-LLM APIs
-  if (process.env.STANDALONE_MODE === '1') {
-    const pathname = url.pathname;
-    const isCoreLLMApi = pathname.startsWith('/api/llm/a/') || pathname.startsWith('/api/llm/o/');
-
-    if (!isCoreLLMApi) {
-      if (pathname === '/api/sessions/create') {
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ id: 'local-' + Date.now() + '-' + Math.random().toString(36).slice(2, 10) }));
-        return;
-      }
-      if (pathname === '/api/cli/whoami') {
-        res.writeHead(401, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Unauthorized' }));
-        return;
-      }
-      res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({}));
-      return;
-    }
-  }
+  if (handleStandaloneRequest(url, req, res)) return;
 
   // Simple proxy - no SSE transformation (handled by proxy plugin)
   log('Proxy:', req.method, url.pathname);
@@ -7,6 +7,7 @@
  */
 
 import type { Patch } from "./patcher.ts";
+import { FACTORY_API_URL, type PatchFlags } from "./patches.ts";
 import { writeFile, chmod, mkdir } from "node:fs/promises";
 import { join } from "node:path";
 import { existsSync } from "node:fs";
@@ -363,6 +364,48 @@ export async function createWebSearchUnifiedFiles(
   };
 }
 
+/**
+ * Create WebSearch files for an alias based on its patch flags
+ *
+ * Picks the websearch mode (native provider, external providers, or the legacy
+ * `proxy` field) and forward target the same way for alias creation and `update`.
+ * Returns null when no websearch mode is enabled.
+ */
+export async function createWebSearchFilesForFlags(
+  outputDir: string,
+  droidPath: string,
+  aliasName: string,
+  flags: Partial<PatchFlags>,
+): Promise<{ wrapperScript: string; preloadScript: string } | null> {
+  // --websearch-proxy reads its model config from settings.json at runtime
+  if (flags.websearchProxy) {
+    return createWebSearchUnifiedFiles(
+      outputDir,
+      droidPath,
+      aliasName,
+      undefined,
+      !!flags.standalone,
+      true,
+    );
+  }
+
+  // Support both new 'websearch' field and old 'proxy' field for backward compatibility
+  if (!flags.websearch && !flags.proxy) {
+    return null;
+  }
+
+  // Determine forward target: apiBase > proxy (legacy) > default
+  const forwardTarget = flags.apiBase || flags.proxy || FACTORY_API_URL;
+  return createWebSearchUnifiedFiles(
+    outputDir,
+    droidPath,
+    aliasName,
+    forwardTarget,
+    !!flags.standalone,
+    false,
+  );
+}
+
 // === Legacy Preload Mode (kept for compatibility) ===
 
 function generatePreloadScript(): string {
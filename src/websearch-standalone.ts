@@ -0,0 +1,38 @@
+/**
+ * Standalone Mode Mock Layer (--standalone)
+ *
+ * Shared by the external providers and native provider proxy servers.
+ * When the wrapper exports STANDALONE_MODE=1, every non-LLM Factory API
+ * request is answered locally instead of being forwarded to Factory.
+ */
+
+export function generateStandaloneMockCode(): string {
+  return `// === Standalone Mode (mock non-LLM Factory APIs) ===
+
+const STANDALONE_MODE = process.env.STANDALONE_MODE === '1';
+
+function isCoreLLMApi(pathname) {
+  return pathname.startsWith('/api/llm/a/') || pathname.startsWith('/api/llm/o/');
+}
+
+// Returns true if the request was answered locally
+function handleStandaloneRequest(url, req, res) {
+  if (!STANDALONE_MODE || isCoreLLMApi(url.pathname)) return false;
+
+  if (url.pathname === '/api/sessions/create') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ id: 'local-' + Date.now() + '-' + Math.random().toString(36).slice(2, 10) }));
+    return true;
+  }
+  if (url.pathname === '/api/cli/whoami') {
+    res.writeHead(401, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Unauthorized' }));
+    return true;
+  }
+  log('Standalone mock:', req.method, url.pathname);
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({}));
+  return true;
+}
+`;
+}
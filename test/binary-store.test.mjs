@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { spawnSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import { chmod, mkdtemp, readdir, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { delimiter, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const CLI = fileURLToPath(new URL("../dist/cli.mjs", import.meta.url));
+
+void test(
+  "aliases with the same patches share one stored binary until the last is removed",
+  { skip: process.platform === "win32" },
+  async () => {
+    const home = await mkdtemp(join(tmpdir(), "droid-patch-store-"));
+    try {
+      const droidPath = join(home, "droid");
+      await writeFile(
+        droidPath,
+        '#!/bin/sh\necho "droid 0.50.0"\n# isCustom:!0 process.env.FACTORY_API_KEY\n',
+      );
+      await chmod(droidPath, 0o755);
+      const env = {
+        ...process.env,
+        HOME: home,
+        PATH: `${join(home, ".local", "bin")}${delimiter}${process.env.PATH}`,
+      };
+      const run = (args) =>
+        spawnSync(process.execPath, [CLI, ...args], { env, encoding: "utf8" }).status;
+      const storeDir = join(home, ".droid-patch", "store");
+      const bin = (alias) => join(home, ".droid-patch", "bins", `${alias}-patched`);
+
+      assert.equal(run(["--is-custom", "-p", droidPath, "plain"]), 0);
+      assert.equal(run(["--is-custom", "--websearch", "-p", droidPath, "searching"]), 0);
+
+      const [key, ...others] = await readdir(storeDir);
+      assert.deepEqual(others, []);
+      const stored = await stat(join(storeDir, key, "droid-patched"));
+      assert.equal(stored.nlink, 3);
+      assert.equal((await stat(bin("plain"))).ino, stored.ino);
+      assert.equal((await stat(bin("searching"))).ino, stored.ino);
+
+      assert.equal(run(["remove", "plain"]), 0);
+      assert.equal((await stat(join(storeDir, key, "droid-patched"))).nlink, 2);
+
+      assert.equal(run(["remove", "searching"]), 0);
+      assert.equal(existsSync(join(storeDir, key)), false);
+    } finally {
+      await rm(home, { recursive: true, force: true });
+    }
+  },
+);
@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { spawnSync } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { patchDroid } from "../dist/index.mjs";
+
+const CLI = fileURLToPath(new URL("../dist/cli.mjs", import.meta.url));
+const TRAILER = Buffer.from("\n---- Bun! ----\n");
+
+/**
+ * A fake ELF Bun executable: runtime bytes (including the trailer string and code
+ * that looks like a patch target), then the module graph, offsets and trailer
+ */
+function buildExecutable(modules, entryPointId) {
+  const parts = [];
+  let size = 0;
+  const append = (bytes) => {
+    parts.push(bytes);
+    size += bytes.length;
+    return { offset: size - bytes.length, length: bytes.length };
+  };
+  const records = modules.map((module) => {
+    const name = append(Buffer.from(module.name));
+    append(Buffer.from([0]));
+    const contents = append(Buffer.from(module.contents));
+    append(Buffer.from([0]));
+    return { name, contents, loader: module.loader };
+  });
+  const table = Buffer.alloc(36 * records.length);
+  for (const [i, record] of records.entries()) {
+    table.writeUInt32LE(record.name.offset, i * 36);
+    table.writeUInt32LE(record.name.length, i * 36 + 4);
+    table.writeUInt32LE(record.contents.offset, i * 36 + 8);
+    table.writeUInt32LE(record.contents.length, i * 36 + 12);
+    table[i * 36 + 32] = 1; // latin1
+    table[i * 36 + 33] = record.loader;
+  }
+  const tablePointer = append(table);
+  const offsets = Buffer.alloc(32);
+  offsets.writeBigUInt64LE(BigInt(size), 0);
+  offsets.writeUInt32LE(tablePointer.offset, 8);
+  offsets.writeUInt32LE(tablePointer.length, 12);
+  offsets.writeUInt32LE(entryPointId, 16);
+
+  const runtime = Buffer.concat([
+    Buffer.from([0x7f, 0x45, 0x4c, 0x46, 2, 1, 1, 0]),
+    Buffer.from("runtime isCustom:!0 "),
+    TRAILER,
+    Buffer.alloc(64, 0xcc),
+  ]);
+  const graph = Buffer.concat([...parts, offsets, TRAILER]);
+  const total = Buffer.alloc(8);
+  total.writeBigUInt64LE(BigInt(graph.length));
+  return Buffer.concat([runtime, graph, total]);
+}
+
+const MODULES = [
+  { name: "/$bunfs/root/worker.js", contents: "postMessage(1);", loader: 1 },
+  { name: "/$bunfs/root/droid", contents: 'var a={isCustom:!0};console.log("hi");', loader: 1 },
+];
+
+void test("ls-modules lists the module graph and extract writes a module out", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "droid-patch-bun-"));
+  try {
+    const droidPath = join(dir, "droid");
+    const data = buildExecutable(MODULES, 1);
+    await writeFile(droidPath, data);
+    const run = (args) =>
+      spawnSync(process.execPath, [CLI, ...args], { cwd: dir, encoding: "utf8" });
+
+    const listing = run(["ls-modules", "-p", droidPath, "--json"]);
+    assert.equal(listing.status, 0);
+    const doc = JSON.parse(listing.stdout);
+    assert.equal(doc.format, "elf");
+    assert.deepEqual(
+      doc.modules.map((m) => [m.name, m.loader, m.entryPoint]),
+      [
+        ["/$bunfs/root/worker.js", "js", false],
+        ["/$bunfs/root/droid", "js", true],
+      ],
+    );
+    for (const [i, module] of doc.modules.entries()) {
+      const bytes = data.subarray(module.offset, module.offset + module.size);
+      assert.equal(bytes.toString(), MODULES[i].contents);
+    }
+
+    assert.equal(run(["extract", "-p", droidPath]).status, 0);
+    assert.equal(await readFile(join(dir, "droid.js"), "utf8"), MODULES[1].contents);
+    assert.equal(run(["extract", "worker.js", "-p", droidPath, "-o", "w.js"]).status, 0);
+    assert.equal(await readFile(join(dir, "w.js"), "utf8"), MODULES[0].contents);
+
+    assert.equal(run(["extract", "missing.js", "-p", droidPath]).status, 3);
+    const notBun = join(dir, "script");
+    await writeFile(notBun, "#!/bin/sh\n");
+    assert.equal(run(["ls-modules", "-p", notBun]).status, 1);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+void test("patchDroid only searches the embedded module graph", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "droid-patch-bun-"));
+  try {
+    const inputPath = join(dir, "droid");
+    const outputPath = join(dir, "droid.patched");
+    await writeFile(inputPath, buildExecutable(MODULES, 1));
+
+    const events = [];
+    const result = await patchDroid({
+      inputPath,
+      outputPath,
+      backup: false,
+      onEvent: (event) => events.push(event),
+      patches: [
+        {
+          name: "custom",
+          description: "flip isCustom",
+          pattern: Buffer.from("isCustom:!0"),
+          replacement: Buffer.from("isCustom:!1"),
+        },
+      ],
+    });
+    assert.equal(result.success, true);
+    assert.equal(result.results[0].found, 1);
+    assert.equal(events.find((e) => e.type === "module-graph")?.modules, 2);
+
+    const output = (await readFile(outputPath)).toString("latin1");
+    assert.match(output, /runtime isCustom:!0 /);
+    assert.match(output, /var a=\{isCustom:!1\}/);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { spawnSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { delimiter, dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const CLI = fileURLToPath(new URL("../dist/cli.mjs", import.meta.url));
+
+void test(
+  "list classifies aliases; doctor reports dangling aliases, orphaned metadata and bad settings, and --fix repairs them",
+  { skip: process.platform === "win32" },
+  async () => {
+    const home = await mkdtemp(join(tmpdir(), "droid-patch-doctor-"));
+    try {
+      const aliasesDir = join(home, ".droid-patch", "aliases");
+      const metaDir = join(home, ".droid-patch", "meta");
+      await mkdir(aliasesDir, { recursive: true });
+      await mkdir(metaDir, { recursive: true });
+      await mkdir(join(home, ".factory"), { recursive: true });
+
+      const danglingAlias = join(aliasesDir, "gone");
+      await symlink(join(home, ".droid-patch", "bins", "gone-patched"), danglingAlias);
+      const untrackedBinary = join(home, ".droid-patch", "bins", "old-patched");
+      await mkdir(dirname(untrackedBinary), { recursive: true });
+      await writeFile(untrackedBinary, "#!/bin/sh\n");
+      await symlink(untrackedBinary, join(aliasesDir, "old"));
+      const orphanedMeta = join(metaDir, "orphan.json");
+      await writeFile(
+        orphanedMeta,
+        JSON.stringify({
+          name: "orphan",
+          createdAt: "2025-01-01T00:00:00.000Z",
+          updatedAt: "2025-01-01T00:00:00.000Z",
+          originalBinaryPath: join(home, "droid"),
+          patches: { isCustom: true, skipLogin: false, apiBase: null, websearch: false },
+        }),
+      );
+      await writeFile(join(home, ".factory", "settings.json"), "{ not json");
+
+      const env = {
+        ...process.env,
+        HOME: home,
+        PATH: `${join(home, ".local", "bin")}${delimiter}${process.env.PATH}`,
+      };
+      const run = (args) => {
+        const result = spawnSync(process.execPath, [CLI, "doctor", ...args, "--json"], {
+          env,
+          encoding: "utf8",
+        });
+        const doc = JSON.parse(result.stdout);
+        const status = Object.fromEntries(doc.checks.map((c) => [c.name, c.status]));
+        return { exitCode: result.status, doc, status };
+      };
+
+      const listed = spawnSync(process.execPath, [CLI, "list", "--json"], {
+        env,
+        encoding: "utf8",
+      });
+      const statuses = Object.fromEntries(
+        JSON.parse(listed.stdout).aliases.map((a) => [a.name, a.status]),
+      );
+      assert.deepEqual(statuses, {
+        gone: "dangling",
+        old: "untracked",
+        orphan: "orphaned-metadata",
+      });
+
+      const report = run(["-p", join(home, "missing-droid")]);
+      assert.equal(report.exitCode, 1);
+      assert.equal(report.status["droid binary"], "fail");
+      assert.equal(report.status["alias targets"], "fail");
+      assert.equal(report.status["alias metadata"], "warn");
+      assert.equal(report.status["alias tracking"], "warn");
+      assert.equal(report.status["settings.json"], "fail");
+      assert.ok(existsSync(orphanedMeta));
+
+      const fixed = run(["--fix"]);
+      const fixedNames = fixed.doc.checks.filter((c) => c.fixed).map((c) => c.name);
+      assert.deepEqual(fixedNames, ["alias targets", "alias metadata"]);
+      assert.equal(existsSync(orphanedMeta), false);
+      assert.equal(existsSync(danglingAlias), false);
+      // Malformed settings are reported, never rewritten
+      assert.equal(fixed.status["settings.json"], "fail");
+    } finally {
+      await rm(home, { recursive: true, force: true });
+    }
+  },
+);
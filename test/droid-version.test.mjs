@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { chmod, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getDroidVersion } from "../dist/index.mjs";
+
+void test(
+  "droid version is read from the embedded bundle, falling back to --version",
+  { skip: process.platform === "win32" },
+  async () => {
+    const dir = await mkdtemp(join(tmpdir(), "droid-patch-version-"));
+    try {
+      // Not executable, with binary data around the bundle
+      const bundled = join(dir, "droid-other-platform");
+      await writeFile(
+        bundled,
+        Buffer.concat([
+          Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x00, 0xff]),
+          Buffer.from(
+            'var a={"version":"9.9.9"};var p={"name":"@factory/cli","version":"0.60.1"};',
+          ),
+          Buffer.from([0x00, 0xfe]),
+        ]),
+      );
+      await chmod(bundled, 0o644);
+      assert.equal(getDroidVersion(bundled), "0.60.1");
+
+      const script = join(dir, "droid");
+      await writeFile(script, '#!/bin/sh\necho "droid 0.50.0"\n');
+      await chmod(script, 0o755);
+      assert.equal(getDroidVersion(script), "0.50.0");
+
+      assert.equal(getDroidVersion(join(dir, "missing")), undefined);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  },
+);
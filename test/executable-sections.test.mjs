@@ -0,0 +1,171 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { findSection, parseExecutableSections, patchDroid } from "../dist/index.mjs";
+
+/**
+ * Minimal 64-bit little-endian executables: just the headers needed to locate sections
+ */
+function buildElf(text, appended) {
+  text = Buffer.from(text, "latin1");
+  appended = Buffer.from(appended, "latin1");
+  const shstrtab = Buffer.from("\0.text\0.shstrtab\0");
+  const textAt = 0x40;
+  const strtabAt = textAt + text.length;
+  const shoff = strtabAt + shstrtab.length;
+  const header = Buffer.alloc(0x40);
+  header.write("\x7fELF", 0, "latin1");
+  header.set([2, 1, 1], 4);
+  header.writeBigUInt64LE(BigInt(shoff), 0x28);
+  header.writeUInt16LE(64, 0x3a);
+  header.writeUInt16LE(3, 0x3c);
+  header.writeUInt16LE(2, 0x3e);
+  const table = Buffer.alloc(64 * 3);
+  const section = (i, name, type, offset, size) => {
+    table.writeUInt32LE(name, i * 64);
+    table.writeUInt32LE(type, i * 64 + 4);
+    table.writeBigUInt64LE(BigInt(offset), i * 64 + 24);
+    table.writeBigUInt64LE(BigInt(size), i * 64 + 32);
+  };
+  section(1, 1, 1, textAt, text.length);
+  section(2, 7, 3, strtabAt, shstrtab.length);
+  return Buffer.concat([header, text, shstrtab, table, appended]);
+}
+
+function buildMachO(text, bun) {
+  text = Buffer.from(text, "latin1");
+  bun = Buffer.from(bun, "latin1");
+  const commandSize = 72 + 80;
+  const textAt = 32 + 2 * commandSize;
+  const bunAt = textAt + text.length;
+  const header = Buffer.alloc(32);
+  header.writeUInt32LE(0xfeedfacf, 0);
+  header.writeUInt32LE(2, 16);
+  header.writeUInt32LE(2 * commandSize, 20);
+  const segment = (segname, sectname, fileoff, filesize, offset, size) => {
+    const command = Buffer.alloc(commandSize);
+    command.writeUInt32LE(0x19, 0);
+    command.writeUInt32LE(commandSize, 4);
+    command.write(segname, 8);
+    command.writeBigUInt64LE(BigInt(fileoff), 40);
+    command.writeBigUInt64LE(BigInt(filesize), 48);
+    command.writeUInt32LE(1, 64);
+    command.write(sectname, 72);
+    command.write(segname, 88);
+    command.writeBigUInt64LE(BigInt(size), 112);
+    command.writeUInt32LE(offset, 120);
+    return command;
+  };
+  return Buffer.concat([
+    header,
+    segment("__TEXT", "__text", 0, bunAt, textAt, text.length),
+    segment("__BUN", "__bun", bunAt, bun.length, bunAt, bun.length),
+    text,
+    bun,
+  ]);
+}
+
+function buildPe(text, bun) {
+  text = Buffer.from(text, "latin1");
+  bun = Buffer.from(bun, "latin1");
+  const peAt = 0x40;
+  const textAt = peAt + 24 + 2 * 40;
+  const dos = Buffer.alloc(peAt);
+  dos.write("MZ", 0);
+  dos.writeUInt32LE(peAt, 0x3c);
+  const coff = Buffer.alloc(24);
+  coff.write("PE\0\0", 0, "latin1");
+  coff.writeUInt16LE(0x8664, 4);
+  coff.writeUInt16LE(2, 6);
+  const table = Buffer.alloc(80);
+  const section = (i, name, offset, size) => {
+    table.write(name, i * 40);
+    table.writeUInt32LE(size, i * 40 + 16);
+    table.writeUInt32LE(offset, i * 40 + 20);
+  };
+  section(0, ".text", textAt, text.length);
+  section(1, ".bun", textAt + text.length, bun.length);
+  return Buffer.concat([dos, coff, table, text, bun]);
+}
+
+const NATIVE = "\x90\x90 isCustom:!0 \xc3";
+const JS = "var a={isCustom:!0};";
+const PATCH = {
+  name: "custom",
+  description: "flip isCustom",
+  pattern: Buffer.from("isCustom:!0"),
+  replacement: Buffer.from("isCustom:!1"),
+};
+
+void test("ELF, Mach-O and PE section tables map offsets to sections", () => {
+  const elf = buildElf(NATIVE, JS);
+  assert.deepEqual(
+    parseExecutableSections(elf).map((s) => s.name),
+    [".text", ".shstrtab", "(appended data)"],
+  );
+  assert.equal(findSection(parseExecutableSections(elf), elf.indexOf(JS))?.name, "(appended data)");
+
+  const macho = buildMachO(NATIVE, JS);
+  const machoSections = parseExecutableSections(macho);
+  assert.equal(findSection(machoSections, macho.indexOf("isCustom"))?.name, "__TEXT,__text");
+  assert.equal(findSection(machoSections, macho.indexOf(JS))?.name, "__BUN,__bun");
+  assert.equal(findSection(machoSections, 0)?.name, "__TEXT");
+
+  const pe = buildPe(NATIVE, JS);
+  const peSections = parseExecutableSections(pe);
+  assert.deepEqual(
+    peSections.map((s) => [s.name, s.size]),
+    [
+      [".text", NATIVE.length],
+      [".bun", JS.length],
+    ],
+  );
+
+  assert.deepEqual(parseExecutableSections(Buffer.from("#!/bin/sh\n")), []);
+  assert.deepEqual(parseExecutableSections(elf.subarray(0, 0x50)), []);
+});
+
+void test("patchDroid rejects matches in native code unless allowed", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "droid-patch-sections-"));
+  try {
+    const elfPath = join(dir, "droid-elf");
+    await writeFile(elfPath, buildElf(NATIVE, JS));
+    const rejected = await patchDroid({
+      inputPath: elfPath,
+      backup: false,
+      silent: true,
+      patches: [PATCH],
+    });
+    assert.equal(rejected.success, false);
+    assert.deepEqual(rejected.rejected, ["custom"]);
+    assert.match(rejected.results[0].rejected, /is in \.text, outside the embedded JavaScript/);
+
+    const allowed = await patchDroid({
+      inputPath: elfPath,
+      backup: false,
+      silent: true,
+      dryRun: true,
+      allowNativeMatches: true,
+      patches: [PATCH],
+    });
+    assert.equal(allowed.success, true);
+    assert.equal(allowed.results[0].found, 2);
+
+    const pePath = join(dir, "droid.exe");
+    await writeFile(pePath, buildPe("\x90\xc3", JS));
+    const events = [];
+    const result = await patchDroid({
+      inputPath: pePath,
+      backup: false,
+      dryRun: true,
+      onEvent: (event) => events.push(event),
+      patches: [PATCH],
+    });
+    assert.equal(result.success, true);
+    assert.equal(events.find((e) => e.type === "match-found")?.section, ".bun");
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
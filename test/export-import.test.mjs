@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { spawnSync } from "node:child_process";
+import { chmod, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { delimiter, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const CLI = fileURLToPath(new URL("../dist/cli.mjs", import.meta.url));
+
+const FAKE_DROID = `#!/bin/sh
+echo "droid 0.50.0"
+# isCustom:!0 process.env.FACTORY_API_KEY https://api.factory.ai
+`;
+
+/**
+ * A separate HOME with its own droid binary, standing in for a teammate's machine
+ */
+async function createMachine(prefix) {
+  const home = await mkdtemp(join(tmpdir(), prefix));
+  const droidPath = join(home, "droid");
+  await writeFile(droidPath, FAKE_DROID);
+  await chmod(droidPath, 0o755);
+  const env = {
+    ...process.env,
+    HOME: home,
+    PATH: `${join(home, ".local", "bin")}${delimiter}${process.env.PATH}`,
+  };
+  const run = (args) => spawnSync(process.execPath, [CLI, ...args], { env, encoding: "utf8" });
+  const readMeta = async (alias) =>
+    JSON.parse(await readFile(join(home, ".droid-patch", "meta", `${alias}.json`), "utf8"));
+  return { home, droidPath, run, readMeta };
+}
+
+void test(
+  "export writes portable alias configs and import recreates them on another machine",
+  { skip: process.platform === "win32" },
+  async () => {
+    const a = await createMachine("droid-patch-export-");
+    const b = await createMachine("droid-patch-import-");
+    try {
+      assert.equal(a.run(["--is-custom", "--websearch", "-p", a.droidPath, "team-ws"]).status, 0);
+      const args = ["--skip-login", "--api-base", "http://127.0.0.1:3000", "-p", a.droidPath];
+      assert.equal(a.run([...args, "team-api"]).status, 0);
+
+      const exported = a.run(["export"]);
+      assert.equal(exported.status, 0);
+      assert.ok(!exported.stdout.includes(a.home), "export contains machine-specific paths");
+      const file = join(b.home, "team.json");
+      await writeFile(file, exported.stdout);
+      assert.equal(JSON.parse(exported.stdout).aliases.length, 2);
+      assert.equal(a.run(["export", "team-ws", "missing"]).status, 3);
+
+      const imported = b.run(["import", file, "-p", b.droidPath, "--json"]);
+      assert.equal(imported.status, 0);
+      assert.deepEqual(
+        JSON.parse(imported.stdout).aliases.map((r) => [r.name, r.status]),
+        [
+          ["team-api", "created"],
+          ["team-ws", "created"],
+        ],
+      );
+      for (const alias of ["team-ws", "team-api"]) {
+        const source = await a.readMeta(alias);
+        const copy = await b.readMeta(alias);
+        assert.deepEqual(copy.patches, source.patches);
+        assert.equal(copy.originalBinaryPath, b.droidPath);
+      }
+
+      const again = JSON.parse(b.run(["import", file, "-p", b.droidPath, "--json"]).stdout);
+      assert.deepEqual(
+        again.aliases.map((r) => r.status),
+        ["skipped", "skipped"],
+      );
+      const forced = JSON.parse(
+        b.run(["import", file, "-p", b.droidPath, "--force", "--json"]).stdout,
+      );
+      assert.deepEqual(
+        forced.aliases.map((r) => r.status),
+        ["replaced", "replaced"],
+      );
+
+      await writeFile(file, JSON.stringify({ version: 1, aliases: [{ name: "x", patches: {} }] }));
+      assert.equal(b.run(["import", file, "-p", b.droidPath]).status, 2);
+    } finally {
+      await rm(a.home, { recursive: true, force: true });
+      await rm(b.home, { recursive: true, force: true });
+    }
+  },
+);
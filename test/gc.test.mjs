@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { spawnSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import { chmod, mkdir, mkdtemp, rm, unlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { delimiter, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const CLI = fileURLToPath(new URL("../dist/cli.mjs", import.meta.url));
+
+void test(
+  "gc reports and deletes files no alias uses, and keeps those of live aliases",
+  { skip: process.platform === "win32" },
+  async () => {
+    const home = await mkdtemp(join(tmpdir(), "droid-patch-gc-"));
+    try {
+      const droidPath = join(home, "droid");
+      await writeFile(
+        droidPath,
+        `#!/bin/sh\necho "droid 0.50.0"\n# isCustom:!0 process.env.FACTORY_API_KEY\n`,
+      );
+      await chmod(droidPath, 0o755);
+      const env = {
+        ...process.env,
+        HOME: home,
+        PATH: `${join(home, ".local", "bin")}${delimiter}${process.env.PATH}`,
+      };
+      const run = (args) => {
+        const result = spawnSync(process.execPath, [CLI, ...args, "--json"], {
+          env,
+          encoding: "utf8",
+        });
+        assert.equal(result.status, 0, result.stdout);
+        return JSON.parse(result.stdout);
+      };
+      const dir = join(home, ".droid-patch");
+
+      run(["--is-custom", "--websearch", "-p", droidPath, "kept"]);
+      run(["--is-custom", "--websearch", "-p", droidPath, "gone"]);
+      // Removed by hand: only the link goes away
+      await unlink(join(home, ".local", "bin", "gone"));
+      await writeFile(join(dir, "bins", "stray-patched"), Buffer.alloc(4096));
+      // Legacy backup of the original droid that `restore` still falls back to
+      const legacyBackup = join(dir, "bins", "droid-original-latest");
+      await writeFile(legacyBackup, "#!/bin/sh\n");
+      await mkdir(join(dir, "statusline"), { recursive: true });
+      await writeFile(join(dir, "statusline", "old-statusline.js"), "");
+
+      const garbage = [
+        join(dir, "bins", "gone-patched"),
+        join(dir, "bins", "stray-patched"),
+        join(dir, "proxy", "gone"),
+        join(dir, "proxy", "gone-proxy.js"),
+        join(dir, "meta", "gone.json"),
+        join(dir, "statusline"),
+      ];
+      const preview = run(["gc", "--dry-run"]);
+      assert.deepEqual(preview.items.map((item) => item.path).toSorted(), garbage.toSorted());
+      assert.equal(
+        preview.reclaimableBytes,
+        preview.items.reduce((total, item) => total + item.size, 0),
+      );
+      assert.ok(preview.reclaimableBytes >= 4096);
+      assert.equal(preview.removed, false);
+      assert.ok(garbage.every((path) => existsSync(path)));
+
+      assert.equal(run(["gc"]).removed, true);
+      assert.ok(garbage.every((path) => !existsSync(path)));
+      for (const file of [
+        "bins/kept-patched",
+        "proxy/kept",
+        "proxy/kept-proxy.js",
+        "meta/kept.json",
+      ]) {
+        assert.ok(existsSync(join(dir, file)), file);
+      }
+      assert.ok(existsSync(legacyBackup));
+      assert.deepEqual(run(["gc", "--dry-run"]).items, []);
+    } finally {
+      await rm(home, { recursive: true, force: true });
+    }
+  },
+);
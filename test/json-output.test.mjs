@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { spawnSync } from "node:child_process";
+import { createHash } from "node:crypto";
+import { chmod, mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { delimiter, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const CLI = fileURLToPath(new URL("../dist/cli.mjs", import.meta.url));
+
+void test(
+  "--json prints one document with stable exit codes",
+  { skip: process.platform === "win32" },
+  async () => {
+    const home = await mkdtemp(join(tmpdir(), "droid-patch-json-"));
+    try {
+      const droidPath = join(home, "droid");
+      await writeFile(droidPath, '#!/bin/sh\necho "droid 0.50.0"\n# isCustom:!0 isCustom:!0\n');
+      await chmod(droidPath, 0o755);
+
+      const env = {
+        ...process.env,
+        HOME: home,
+        PATH: `${join(home, ".local", "bin")}${delimiter}${process.env.PATH}`,
+      };
+      const run = (args) => {
+        const result = spawnSync(process.execPath, [CLI, ...args, "--json"], {
+          env,
+          encoding: "utf8",
+        });
+        return { status: result.status, doc: JSON.parse(result.stdout) };
+      };
+
+      const created = run(["--is-custom", "-p", droidPath, "droid-json"]);
+      assert.equal(created.status, 0);
+      assert.equal(created.doc.command, "patch");
+      assert.equal(created.doc.ok, true);
+      assert.deepEqual(created.doc.patches, [
+        { name: "isCustom", found: 2, alreadyPatched: false, offsets: [32, 44] },
+      ]);
+      assert.equal(created.doc.aliasPath, join(home, ".local", "bin", "droid-json"));
+      assert.equal(created.doc.metadata.patches.isCustom, true);
+
+      // Hashes of both binaries are recorded, and no temp files are left behind
+      const binsDir = join(home, ".droid-patch", "bins");
+      const sha256 = async (path) =>
+        createHash("sha256")
+          .update(await readFile(path))
+          .digest("hex");
+      assert.equal(created.doc.metadata.inputSha256, await sha256(droidPath));
+      assert.equal(
+        created.doc.metadata.outputSha256,
+        await sha256(join(binsDir, "droid-json-patched")),
+      );
+      assert.deepEqual(await readdir(binsDir), ["droid-json-patched"]);
+
+      const listed = run(["list"]);
+      assert.equal(listed.status, 0);
+      assert.deepEqual(
+        listed.doc.aliases.map((a) => [a.name, a.metadata?.name]),
+        [["droid-json", "droid-json"]],
+      );
+
+      const updated = run(["update", "-p", droidPath]);
+      assert.equal(updated.status, 0);
+      assert.deepEqual(
+        updated.doc.aliases.map((a) => [a.name, a.ok]),
+        [["droid-json", true]],
+      );
+
+      const models = run(["list-models"]);
+      assert.equal(models.status, 0);
+      assert.deepEqual(models.doc.models, []);
+
+      const usage = run(["--websearch", "--websearch-proxy", "x"]);
+      assert.equal(usage.status, 2);
+      assert.equal(usage.doc.ok, false);
+      assert.match(usage.doc.errors[0], /together/);
+
+      const missing = run(["--is-custom", "-p", join(home, "nope"), "x"]);
+      assert.equal(missing.status, 3);
+
+      const noAlias = run(["update", "ghost", "-p", droidPath]);
+      assert.equal(noAlias.status, 3);
+
+      const notFound = run(["--skip-login", "-p", droidPath, "droid-nothing"]);
+      assert.equal(notFound.status, 4);
+      assert.equal(notFound.doc.patches[0].found, 0);
+    } finally {
+      await rm(home, { recursive: true, force: true });
+    }
+  },
+);
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { spawnSync } from "node:child_process";
+import { chmod, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { delimiter, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const CLI = fileURLToPath(new URL("../dist/cli.mjs", import.meta.url));
+
+void test(
+  "list and remove filter by flag conditions and stale droid version; list sorts",
+  { skip: process.platform === "win32" },
+  async () => {
+    const home = await mkdtemp(join(tmpdir(), "droid-patch-list-"));
+    try {
+      const droidPath = join(home, "droid");
+      const installDroid = async (version) => {
+        await writeFile(
+          droidPath,
+          `#!/bin/sh\necho "droid ${version}"\n# isCustom:!0 process.env.FACTORY_API_KEY\n`,
+        );
+        await chmod(droidPath, 0o755);
+      };
+      const env = {
+        ...process.env,
+        HOME: home,
+        PATH: `${join(home, ".local", "bin")}${delimiter}${process.env.PATH}`,
+      };
+      const run = (args) => {
+        const result = spawnSync(process.execPath, [CLI, ...args, "--json"], {
+          env,
+          encoding: "utf8",
+        });
+        return { status: result.status, doc: JSON.parse(result.stdout) };
+      };
+      const names = (args) => run(["list", ...args]).doc.aliases.map((a) => a.name);
+
+      await installDroid("0.50.0");
+      assert.equal(run(["--is-custom", "-p", droidPath, "zeta"]).status, 0);
+      assert.equal(run(["--is-custom", "--skip-login", "-p", droidPath, "alpha"]).status, 0);
+      await installDroid("0.51.0");
+      assert.equal(run(["--skip-login", "-p", droidPath, "mid"]).status, 0);
+
+      assert.deepEqual(names(["--sort", "name"]), ["alpha", "mid", "zeta"]);
+      assert.deepEqual(names(["--sort", "created"]), ["mid", "alpha", "zeta"]);
+      assert.deepEqual(names(["--flag", "skip-login", "--sort", "name"]), ["alpha", "mid"]);
+      assert.deepEqual(names(["--droid-version", "0.51.0"]), ["mid"]);
+
+      const stale = run(["list", "--stale", "--sort", "name", "-p", droidPath]);
+      assert.equal(stale.doc.installedDroidVersion, "0.51.0");
+      assert.deepEqual(
+        stale.doc.aliases.map((a) => a.name),
+        ["alpha", "zeta"],
+      );
+
+      assert.deepEqual(names(["--flag", "skip-login,!is-custom"]), ["mid"]);
+      assert.deepEqual(
+        names([
+          "--flag",
+          "is-custom",
+          "--flag",
+          "websearch-proxy",
+          "--match",
+          "any",
+          "--sort",
+          "name",
+        ]),
+        ["alpha", "zeta"],
+      );
+
+      const remove = (args) =>
+        spawnSync(process.execPath, [CLI, "remove", ...args], { env, encoding: "utf8" });
+      const preview = remove(["--flag", "!is-custom", "--dry-run"]);
+      assert.equal(preview.status, 0);
+      assert.match(preview.stdout, /Would remove 1 alias/);
+      assert.deepEqual(names(["--sort", "name"]), ["alpha", "mid", "zeta"]);
+      assert.equal(remove(["--flag", "!is-custom"]).status, 0);
+      assert.deepEqual(names(["--sort", "name"]), ["alpha", "zeta"]);
+
+      assert.equal(run(["list", "--flag", "no-such-flag"]).status, 2);
+      assert.equal(run(["list", "--sort", "size"]).status, 2);
+      assert.equal(run(["list", "--stale", "-p", join(home, "missing")]).status, 3);
+    } finally {
+      await rm(home, { recursive: true, force: true });
+    }
+  },
+);
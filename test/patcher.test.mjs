@@ -0,0 +1,290 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  buildPatches,
+  definitionsToPatches,
+  parsePatchDefinitions,
+  patchDroid,
+} from "../dist/index.mjs";
+
+void test("regex patches report and rewrite byte offsets for repeated matches", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "droid-patch-regex-"));
+  try {
+    // Multi-byte UTF-8 and invalid bytes before each match make char and byte indexes diverge
+    const input = Buffer.concat([
+      Buffer.from("é€ var a=foo(1);", "utf-8"),
+      Buffer.from([0xff, 0xfe, 0x00]),
+      Buffer.from("… var b=foo(1);", "utf-8"),
+    ]);
+    const inputPath = join(dir, "droid");
+    const outputPath = join(dir, "droid.patched");
+    await writeFile(inputPath, input);
+
+    const result = await patchDroid({
+      inputPath,
+      outputPath,
+      patches: [
+        {
+          name: "foo",
+          description: "rename foo to bar",
+          pattern: Buffer.alloc(0),
+          replacement: Buffer.alloc(0),
+          regexPattern: /foo\((\d)\)/,
+          regexReplacement: "bar($1)",
+        },
+      ],
+    });
+
+    assert.equal(result.success, true);
+    const expected = [input.indexOf("foo(1)"), input.lastIndexOf("foo(1)")];
+    assert.deepEqual(result.results[0].positions, expected);
+
+    const output = await readFile(outputPath);
+    assert.equal(output.length, input.length);
+    for (const offset of expected) {
+      assert.equal(output.subarray(offset, offset + 6).toString("latin1"), "bar(1)");
+    }
+    assert.equal(output.indexOf("foo("), -1);
+    assert.deepEqual(output.subarray(0, expected[0]), input.subarray(0, expected[0]));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+void test("length-changing replacements are rejected unless padding is declared", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "droid-patch-length-"));
+  try {
+    const inputPath = join(dir, "droid");
+    await writeFile(inputPath, "x;enableFeature(longName);y;");
+    const patch = {
+      name: "shorten",
+      description: "shorten the call",
+      pattern: Buffer.alloc(0),
+      replacement: Buffer.alloc(0),
+      regexPattern: /enableFeature\(longName\)/,
+      regexReplacement: "enableFeature(0)",
+    };
+
+    const rejected = await patchDroid({
+      inputPath,
+      outputPath: join(dir, "rejected"),
+      patches: [patch],
+    });
+    assert.equal(rejected.success, false);
+    assert.deepEqual(rejected.rejected, ["shorten"]);
+    assert.match(rejected.results[0].rejected, /16 bytes but match .* is 23 bytes/);
+    assert.equal(existsSync(join(dir, "rejected")), false);
+    assert.equal(existsSync(`${inputPath}.backup`), false);
+
+    for (const [padding, expected] of [
+      ["space", "x;enableFeature(0)       ;y;"],
+      ["comment", "x;enableFeature(0)/*   */;y;"],
+    ]) {
+      const outputPath = join(dir, padding);
+      const result = await patchDroid({
+        inputPath,
+        outputPath,
+        patches: [{ ...patch, padding }],
+        backup: false,
+      });
+      assert.equal(result.success, true);
+      assert.equal(await readFile(outputPath, "latin1"), expected);
+    }
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+void test("empty regex replacements are rejected instead of searching for an empty pattern", async () => {
+  const entry = { name: "x", regexPattern: "foo\\(([a-z])\\)", regexReplacement: "" };
+  assert.throws(
+    () => parsePatchDefinitions([entry], "test.json"),
+    /regexReplacement: must be a non-empty string/,
+  );
+
+  const dir = await mkdtemp(join(tmpdir(), "droid-patch-empty-"));
+  try {
+    const inputPath = join(dir, "droid");
+    await writeFile(inputPath, "x;foo(a);y;");
+    // Through the API an empty replacement is still a regex patch, blanked by padding
+    const [patch] = definitionsToPatches([{ ...entry, regexReplacement: "bar($1)" }]);
+    const outputPath = join(dir, "blanked");
+    const result = await patchDroid({
+      inputPath,
+      outputPath,
+      patches: [{ ...patch, regexReplacement: "", padding: "space" }],
+      backup: false,
+    });
+    assert.equal(result.success, true);
+    assert.equal(await readFile(outputPath, "latin1"), "x;      ;y;");
+
+    await assert.rejects(
+      patchDroid({
+        inputPath,
+        outputPath: join(dir, "literal"),
+        dryRun: true,
+        patches: [
+          {
+            name: "empty",
+            description: "",
+            pattern: Buffer.alloc(0),
+            replacement: Buffer.alloc(0),
+          },
+        ],
+      }),
+      /empty pattern/,
+    );
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+void test("occurrence expectations refuse to write and name the offending patch", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "droid-patch-expect-"));
+  try {
+    const inputPath = join(dir, "droid");
+    await writeFile(inputPath, "a={isCustom:!0,x};b={isCustom:!0};");
+    const patch = {
+      name: "isCustom",
+      description: "isCustom:!0 -> isCustom:!1",
+      pattern: Buffer.from("isCustom:!0"),
+      replacement: Buffer.from("isCustom:!1"),
+    };
+    const run = (expect) =>
+      patchDroid({
+        inputPath,
+        outputPath: join(dir, "out"),
+        patches: [{ ...patch, expect }],
+        backup: false,
+      });
+
+    for (const [expect, reason] of [
+      [{ exact: 1 }, /expected exactly 1 occurrence, found 2/],
+      [{ max: 1 }, /expected at most 1 occurrence, found 2/],
+      [{ min: 3 }, /expected at least 3 occurrences, found 2/],
+      [{ after: Buffer.from(",") }, /match at 0x00000015 is not followed/],
+      [{ before: Buffer.from("b={") }, /match at 0x00000003 is not preceded/],
+    ]) {
+      const result = await run(expect);
+      assert.equal(result.success, false);
+      assert.deepEqual(result.rejected, ["isCustom"]);
+      assert.match(result.results[0].rejected, reason);
+      assert.equal(existsSync(join(dir, "out")), false);
+    }
+
+    const result = await run({ exact: 2, before: Buffer.from("{") });
+    assert.equal(result.success, true);
+    assert.equal(await readFile(join(dir, "out"), "utf8"), "a={isCustom:!1,x};b={isCustom:!1};");
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+void test("built-in isCustom and telemetry patches refuse unexpected matches", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "droid-patch-builtin-"));
+  try {
+    const patches = buildPatches({ isCustom: true, noTelemetry: true });
+    for (const name of ["isCustom", "noTelemetrySentryEnv1", "noTelemetrySentryEnv2"]) {
+      assert.ok(patches.find((p) => p.name === name).expect?.max, name);
+    }
+    const check = async (contents) => {
+      const inputPath = join(dir, "droid");
+      await writeFile(inputPath, contents);
+      const result = await patchDroid({ inputPath, patches, dryRun: true, silent: true });
+      return Object.fromEntries(result.results.map((r) => [r.name, r.rejected ?? "ok"]));
+    };
+    const bundle = [
+      "a={isCustom:!0,n:1};b={isCustom:!0,n:2};",
+      "e.ENABLE_SENTRY||e.NEXT_PUBLIC_ENABLE_SENTRY||e.FACTORY_ENABLE_SENTRY||e.VITE_VERCEL_ENV;",
+      "flushToWeb(){if(this.webEvents.length===0)return;}",
+    ];
+
+    assert.deepEqual(await check(bundle.join("")), {
+      isCustom: "ok",
+      noTelemetrySentryEnv1: "ok",
+      noTelemetrySentryEnv2: "ok",
+      noTelemetryFlushBlock: "ok",
+    });
+
+    const unexpected = await check(
+      [
+        ...bundle,
+        "c={isCustom:!0};",
+        "x.ENABLE_SENTRY_DSN;y.VITE_VERCEL_ENV;",
+        "while(this.webEvents.length===0)wait();",
+      ].join(""),
+    );
+    assert.equal(unexpected.isCustom, "expected at most 2 occurrences, found 3");
+    assert.equal(unexpected.noTelemetrySentryEnv1, "expected at most 3 occurrences, found 4");
+    assert.equal(unexpected.noTelemetrySentryEnv2, "expected at most 1 occurrence, found 2");
+    assert.match(unexpected.noTelemetryFlushBlock, /found 2/);
+
+    // The flush check must be the early return in flushToWeb
+    const moved = await check(bundle.join("").replace("if(this", "while(this"));
+    assert.match(moved.noTelemetryFlushBlock, /not preceded by the required context/);
+    assert.equal(moved.isCustom, "ok");
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+void test("onEvent receives typed progress events instead of console output", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "droid-patch-events-"));
+  const logged = [];
+  const originalLog = console.log;
+  const originalHome = process.env.HOME;
+  console.log = (...args) => logged.push(args);
+  // Backups go to the store under HOME
+  process.env.HOME = dir;
+  try {
+    const inputPath = join(dir, "droid");
+    await writeFile(inputPath, "isCustom:!0;isCustom:!0");
+    const events = [];
+    const result = await patchDroid({
+      inputPath,
+      patches: [
+        {
+          name: "isCustom",
+          description: "isCustom:!0 -> isCustom:!1",
+          pattern: Buffer.from("isCustom:!0"),
+          replacement: Buffer.from("isCustom:!1"),
+        },
+      ],
+      onEvent: (event) => events.push(event),
+    });
+
+    assert.equal(result.success, true);
+    assert.deepEqual(
+      events.map((e) => e.type).filter((type) => type !== "resigned"),
+      [
+        "read",
+        "patch-checked",
+        "match-found",
+        "match-found",
+        "backup-created",
+        "written",
+        "verified",
+        "done",
+      ],
+    );
+    assert.deepEqual(
+      events.filter((e) => e.type === "match-found").map((e) => e.offset),
+      [0, 12],
+    );
+    assert.equal(events.at(-1).result, result);
+    const backup = events.find((e) => e.type === "backup-created");
+    assert.equal(backup.backupPath, join(dir, ".droid-patch", "backups", backup.sha256, "droid"));
+    assert.equal(await readFile(backup.backupPath, "utf8"), "isCustom:!0;isCustom:!0");
+
+    await patchDroid({ inputPath, patches: [], dryRun: true, silent: true });
+    assert.deepEqual(logged, []);
+  } finally {
+    console.log = originalLog;
+    process.env.HOME = originalHome;
+    await rm(dir, { recursive: true, force: true });
+  }
+});
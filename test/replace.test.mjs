@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { spawnSync } from "node:child_process";
+import { chmod, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { delimiter, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const CLI = fileURLToPath(new URL("../dist/cli.mjs", import.meta.url));
+
+const droidScript = (version) => `#!/bin/sh\necho "droid ${version}"\n# isCustom:!0\n`;
+
+void test(
+  "replace patches droid in place, update re-applies it and restore brings back each version",
+  { skip: process.platform === "win32" },
+  async () => {
+    const home = await mkdtemp(join(tmpdir(), "droid-patch-replace-"));
+    try {
+      const droidPath = join(home, "droid");
+      const replacementPath = join(home, ".droid-patch", "replacement.json");
+      const installDroid = async (version) => {
+        await writeFile(droidPath, droidScript(version));
+        await chmod(droidPath, 0o755);
+      };
+      const env = {
+        ...process.env,
+        HOME: home,
+        PATH: `${join(home, ".local", "bin")}${delimiter}${process.env.PATH}`,
+      };
+      const run = (args) => {
+        const result = spawnSync(process.execPath, [CLI, ...args, "--json"], {
+          env,
+          encoding: "utf8",
+        });
+        return { status: result.status, doc: JSON.parse(result.stdout) };
+      };
+
+      await installDroid("0.50.0");
+      const replaced = run(["replace", "--is-custom", "-p", droidPath]);
+      assert.equal(replaced.status, 0);
+      assert.equal(replaced.doc.replacement.droidVersion, "0.50.0");
+      assert.match(await readFile(droidPath, "utf8"), /isCustom:!1/);
+      assert.equal(
+        await readFile(replaced.doc.replacement.backupPath, "utf8"),
+        droidScript("0.50.0"),
+      );
+
+      // Replacing again patches from the backup rather than backing up the patched binary
+      assert.equal(run(["replace", "--is-custom", "-p", droidPath]).status, 0);
+      assert.match(await readFile(droidPath, "utf8"), /isCustom:!1/);
+
+      // droid self-updates: update backs up the new version and re-applies the patches
+      await installDroid("0.51.0");
+      const updated = run(["update", "-p", droidPath]);
+      assert.equal(updated.status, 0);
+      assert.equal(updated.doc.replacement.reapplied, true);
+      assert.match(await readFile(droidPath, "utf8"), /0\.51\.0[\s\S]*isCustom:!1/);
+      const listed = run(["backups", "list"]);
+      assert.deepEqual(
+        listed.doc.backups.map((b) => b.droidVersion),
+        ["0.51.0", "0.50.0"],
+      );
+
+      // The backup of the replaced version is protected from pruning
+      const pruned = run(["backups", "prune", "--keep", "0", "--dry-run"]);
+      assert.deepEqual(
+        pruned.doc.removed.map((b) => b.droidVersion),
+        ["0.50.0"],
+      );
+
+      const unchanged = run(["update", "-p", droidPath]);
+      assert.equal(unchanged.doc.replacement.reapplied, false);
+
+      assert.equal(run(["restore"]).status, 0);
+      assert.equal(await readFile(droidPath, "utf8"), droidScript("0.51.0"));
+      assert.equal(existsSync(replacementPath), false);
+
+      assert.equal(run(["restore", "0.50.0", "-p", droidPath]).status, 0);
+      assert.equal(await readFile(droidPath, "utf8"), droidScript("0.50.0"));
+      assert.equal(run(["restore", "9.9.9", "-p", droidPath]).status, 3);
+
+      const hash = listed.doc.backups[0].sha256.slice(0, 8);
+      assert.equal(run(["backups", "restore", hash]).status, 0);
+      assert.equal(await readFile(droidPath, "utf8"), droidScript("0.51.0"));
+      assert.equal(run(["backups", "prune", "--keep", "1"]).doc.removed.length, 1);
+      assert.equal(run(["backups", "list"]).doc.backups.length, 1);
+    } finally {
+      await rm(home, { recursive: true, force: true });
+    }
+  },
+);
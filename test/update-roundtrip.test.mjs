@@ -0,0 +1,461 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { spawnSync } from "node:child_process";
+import {
+  chmod,
+  mkdir,
+  mkdtemp,
+  readFile,
+  readlink,
+  rename,
+  rm,
+  symlink,
+  writeFile,
+} from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { delimiter, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const CLI = fileURLToPath(new URL("../dist/cli.mjs", import.meta.url));
+
+// A fake droid: a shell script that answers --version and carries every literal patch target
+const FAKE_DROID = `#!/bin/sh
+echo "droid 0.50.0"
+exit 0
+# isCustom:!0 process.env.FACTORY_API_KEY https://api.factory.ai
+# supportedReasoningEfforts:["none"] defaultReasoningEffort:"none"
+# supportedReasoningEfforts.length>1 supportedReasoningEfforts.length<=1
+# ENABLE_SENTRY VITE_VERCEL_ENV if(this.webEvents.length===0)return;
+`;
+
+const BINARY_FLAGS = ["--is-custom", "--skip-login", "--reasoning-effort", "--disable-telemetry"];
+
+/**
+ * Every combination of the wrapper-related flags, with and without binary patches
+ */
+function flagCombinations() {
+  const combos = [];
+  for (let mask = 0; mask < 16; mask++) {
+    const websearch = !!(mask & 1);
+    const websearchProxy = !!(mask & 2);
+    const standalone = !!(mask & 4);
+    const apiBase = !!(mask & 8);
+    if (websearch && websearchProxy) continue;
+    for (const binary of [false, true]) {
+      const flags = [];
+      if (binary) flags.push(...BINARY_FLAGS);
+      if (websearch) flags.push("--websearch");
+      if (websearchProxy) flags.push("--websearch-proxy");
+      if (standalone) flags.push("--standalone");
+      if (apiBase) flags.push("--api-base=http://127.0.0.1:3000");
+      // Nothing to patch or wrap: droid-patch refuses to create an alias
+      if (!binary && !websearch && !websearchProxy) continue;
+      combos.push(flags);
+    }
+  }
+  return combos;
+}
+
+async function snapshotAlias(home, alias) {
+  const meta = JSON.parse(
+    await readFile(join(home, ".droid-patch", "meta", `${alias}.json`), "utf8"),
+  );
+  const wrapperPath = join(home, ".droid-patch", "proxy", alias);
+  const proxyPath = join(home, ".droid-patch", "proxy", `${alias}-proxy.js`);
+  return {
+    patches: meta.patches,
+    aliasPath: meta.aliasPath,
+    target: await readlink(meta.aliasPath),
+    wrapper: existsSync(wrapperPath) ? await readFile(wrapperPath, "utf8") : null,
+    proxy: existsSync(proxyPath) ? await readFile(proxyPath, "utf8") : null,
+  };
+}
+
+void test(
+  "update rebuilds every flag combination exactly as creation did",
+  { skip: process.platform === "win32" },
+  async () => {
+    const home = await mkdtemp(join(tmpdir(), "droid-patch-roundtrip-"));
+    try {
+      const droidPath = join(home, "droid");
+      await writeFile(droidPath, FAKE_DROID);
+      await chmod(droidPath, 0o755);
+
+      const env = {
+        ...process.env,
+        HOME: home,
+        PATH: `${join(home, ".local", "bin")}${delimiter}${process.env.PATH}`,
+      };
+      const run = (args) => {
+        const result = spawnSync(process.execPath, [CLI, ...args], { env, encoding: "utf8" });
+        assert.equal(result.status, 0, `droid-patch ${args.join(" ")}\n${result.stdout}`);
+      };
+
+      const combos = flagCombinations();
+      for (const [i, flags] of combos.entries()) {
+        const alias = `droid-rt-${i}`;
+        run([...flags, "-p", droidPath, alias]);
+        const created = await snapshotAlias(home, alias);
+
+        run(["update", alias, "-p", droidPath]);
+        const updated = await snapshotAlias(home, alias);
+
+        assert.deepEqual(updated, created, `flags: ${flags.join(" ")}`);
+      }
+    } finally {
+      await rm(home, { recursive: true, force: true });
+    }
+  },
+);
+
+void test(
+  "update re-applies patches loaded from --patch-file",
+  { skip: process.platform === "win32" },
+  async () => {
+    const home = await mkdtemp(join(tmpdir(), "droid-patch-patchfile-"));
+    try {
+      const droidPath = join(home, "droid");
+      await writeFile(droidPath, `${FAKE_DROID}# enableFoo:!1 callFoo(a)\n`);
+      await chmod(droidPath, 0o755);
+
+      const patchesDir = join(home, ".droid-patch", "patches");
+      await mkdir(patchesDir, { recursive: true });
+      await writeFile(
+        join(patchesDir, "team.yaml"),
+        [
+          "patches:",
+          "  - name: enableFoo",
+          '    pattern: "enableFoo:!1"',
+          "    replacement: { hex: 656e61626c65466f6f3a2130 }",
+          "  - name: callBar",
+          "    regexPattern: 'callFoo\\(([a-z])\\)'",
+          '    regexReplacement: "callBar($1)"',
+          "",
+        ].join("\n"),
+      );
+
+      const env = {
+        ...process.env,
+        HOME: home,
+        PATH: `${join(home, ".local", "bin")}${delimiter}${process.env.PATH}`,
+      };
+      const run = (args) => {
+        const result = spawnSync(process.execPath, [CLI, ...args], { env, encoding: "utf8" });
+        assert.equal(result.status, 0, `droid-patch ${args.join(" ")}\n${result.stdout}`);
+      };
+
+      run(["--patch-file", "team", "-p", droidPath, "droid-team"]);
+      const meta = JSON.parse(
+        await readFile(join(home, ".droid-patch", "meta", "droid-team.json"), "utf8"),
+      );
+      assert.deepEqual(
+        meta.customPatches.map((p) => p.name),
+        ["enableFoo", "callBar"],
+      );
+
+      // The patch file is no longer needed: update re-applies from metadata
+      await rm(patchesDir, { recursive: true });
+      run(["update", "droid-team", "-p", droidPath]);
+      const patched = await readFile(
+        join(home, ".droid-patch", "bins", "droid-team-patched"),
+        "utf8",
+      );
+      assert.match(patched, /enableFoo:!0 callBar\(a\)/);
+    } finally {
+      await rm(home, { recursive: true, force: true });
+    }
+  },
+);
+
+void test(
+  "rollback restores the binary, wrapper, symlink and metadata from before an update",
+  { skip: process.platform === "win32" },
+  async () => {
+    const home = await mkdtemp(join(tmpdir(), "droid-patch-rollback-"));
+    try {
+      const droidPath = join(home, "droid");
+      await writeFile(droidPath, FAKE_DROID);
+      await chmod(droidPath, 0o755);
+
+      const env = {
+        ...process.env,
+        HOME: home,
+        PATH: `${join(home, ".local", "bin")}${delimiter}${process.env.PATH}`,
+      };
+      const run = (args) => {
+        const result = spawnSync(process.execPath, [CLI, ...args], { env, encoding: "utf8" });
+        assert.equal(result.status, 0, `droid-patch ${args.join(" ")}\n${result.stdout}`);
+      };
+      const binaryPath = join(home, ".droid-patch", "bins", "droid-rb-patched");
+
+      run(["--is-custom", "--websearch", "-p", droidPath, "droid-rb"]);
+      const before = await snapshotAlias(home, "droid-rb");
+      const binaryBefore = await readFile(binaryPath, "utf8");
+
+      // A new droid release
+      await writeFile(droidPath, FAKE_DROID.replace("0.50.0", "0.51.0"));
+      run(["update", "droid-rb", "-p", droidPath]);
+      assert.match(await readFile(binaryPath, "utf8"), /0\.51\.0/);
+
+      run(["rollback", "droid-rb"]);
+      assert.deepEqual(await snapshotAlias(home, "droid-rb"), before);
+      assert.equal(await readFile(binaryPath, "utf8"), binaryBefore);
+      const meta = JSON.parse(
+        await readFile(join(home, ".droid-patch", "meta", "droid-rb.json"), "utf8"),
+      );
+      assert.equal(meta.droidVersion, "0.50.0");
+
+      // The restored generation is consumed
+      const again = spawnSync(process.execPath, [CLI, "rollback", "droid-rb"], { env });
+      assert.equal(again.status, 3);
+    } finally {
+      await rm(home, { recursive: true, force: true });
+    }
+  },
+);
+
+void test(
+  "edit switches patches on an alias, keeps createdAt and rejects contradictory changes",
+  { skip: process.platform === "win32" },
+  async () => {
+    const home = await mkdtemp(join(tmpdir(), "droid-patch-edit-"));
+    try {
+      const droidPath = join(home, "droid");
+      await writeFile(droidPath, FAKE_DROID);
+      await chmod(droidPath, 0o755);
+
+      const env = {
+        ...process.env,
+        HOME: home,
+        PATH: `${join(home, ".local", "bin")}${delimiter}${process.env.PATH}`,
+      };
+      const run = (args) =>
+        spawnSync(process.execPath, [CLI, ...args], { env, encoding: "utf8" }).status;
+      const readMeta = async () =>
+        JSON.parse(await readFile(join(home, ".droid-patch", "meta", "droid-ed.json"), "utf8"));
+
+      assert.equal(run(["--is-custom", "--websearch", "-p", droidPath, "droid-ed"]), 0);
+      const created = await readMeta();
+
+      assert.equal(run(["edit", "droid-ed", "--add", "skip-login,websearch-proxy"]), 0);
+      const edited = await readMeta();
+      assert.equal(edited.createdAt, created.createdAt);
+      assert.equal(edited.patches.skipLogin, true);
+      assert.equal(edited.patches.websearchProxy, true);
+      assert.equal(edited.patches.websearch, false);
+      assert.equal(
+        await readlink(edited.aliasPath),
+        join(home, ".droid-patch", "proxy", "droid-ed"),
+      );
+
+      // Dropping every binary patch leaves a wrapper around the original droid
+      assert.equal(run(["edit", "droid-ed", "--remove", "is-custom", "--remove", "skip-login"]), 0);
+      assert.equal(existsSync(join(home, ".droid-patch", "bins", "droid-ed-patched")), false);
+      assert.match(
+        await readFile(join(home, ".droid-patch", "proxy", "droid-ed"), "utf8"),
+        new RegExp(droidPath),
+      );
+
+      assert.equal(run(["edit", "droid-ed", "--remove", "websearch-proxy"]), 2);
+      assert.equal(run(["edit", "droid-ed", "--add", "websearch", "--remove", "websearch"]), 2);
+      assert.equal(run(["edit", "droid-ed", "--add", "websearch,websearch-proxy"]), 2);
+      assert.equal(run(["edit", "droid-ed", "--add", "no-such-flag"]), 2);
+      assert.equal(run(["edit", "droid-ed"]), 2);
+      assert.equal(run(["edit", "missing", "--add", "is-custom"]), 3);
+    } finally {
+      await rm(home, { recursive: true, force: true });
+    }
+  },
+);
+
+void test(
+  "rename moves every alias file and generation to the new name; clone copies it with a new API base",
+  { skip: process.platform === "win32" },
+  async () => {
+    const home = await mkdtemp(join(tmpdir(), "droid-patch-rename-"));
+    try {
+      const droidPath = join(home, "droid");
+      await writeFile(droidPath, FAKE_DROID);
+      await chmod(droidPath, 0o755);
+
+      const env = {
+        ...process.env,
+        HOME: home,
+        PATH: `${join(home, ".local", "bin")}${delimiter}${process.env.PATH}`,
+      };
+      const run = (args) =>
+        spawnSync(process.execPath, [CLI, ...args], { env, encoding: "utf8" }).status;
+      const dir = join(home, ".droid-patch");
+      const readMeta = async (alias) =>
+        JSON.parse(await readFile(join(dir, "meta", `${alias}.json`), "utf8"));
+
+      assert.equal(run(["--is-custom", "--websearch", "-p", droidPath, "droid-a"]), 0);
+      const created = await readMeta("droid-a");
+      // Saves generation 1, patched from droid 0.50.0
+      await writeFile(droidPath, FAKE_DROID.replace("0.50.0", "0.51.0"));
+      assert.equal(run(["update", "droid-a", "-p", droidPath]), 0);
+
+      assert.equal(run(["rename", "droid-a", "droid-b"]), 0);
+      for (const file of [
+        "bins/droid-a-patched",
+        "proxy/droid-a",
+        "meta/droid-a.json",
+        "generations/droid-a",
+      ]) {
+        assert.equal(existsSync(join(dir, file)), false, file);
+      }
+      const renamed = await readMeta("droid-b");
+      assert.equal(renamed.createdAt, created.createdAt);
+      assert.deepEqual(renamed.patches, created.patches);
+      assert.equal(await readlink(renamed.aliasPath), join(dir, "proxy", "droid-b"));
+      const wrapper = await readFile(join(dir, "proxy", "droid-b"), "utf8");
+      assert.match(wrapper, /droid-b-proxy\.js/);
+      assert.match(wrapper, /droid-b-patched/);
+      assert.doesNotMatch(wrapper, /droid-a/);
+
+      assert.equal(run(["rollback", "droid-b"]), 0);
+      const rolledBack = await readMeta("droid-b");
+      assert.equal(rolledBack.name, "droid-b");
+      assert.equal(rolledBack.droidVersion, "0.50.0");
+      assert.equal(rolledBack.aliasPath, renamed.aliasPath);
+      assert.equal(await readlink(renamed.aliasPath), join(dir, "proxy", "droid-b"));
+      assert.doesNotMatch(await readFile(join(dir, "proxy", "droid-b"), "utf8"), /droid-a/);
+      assert.doesNotMatch(await readFile(join(dir, "bins", "droid-b-patched"), "utf8"), /0\.51/);
+      assert.equal(existsSync(join(dir, "bins", "droid-a-patched")), false);
+
+      // Without websearch the API base is a binary patch, so the clone is rebuilt
+      assert.equal(run(["--is-custom", "-p", droidPath, "droid-c"]), 0);
+      assert.equal(run(["clone", "droid-c", "droid-d", "--api-base", "http://127.0.0.1:3000"]), 0);
+      assert.equal((await readMeta("droid-d")).patches.apiBase, "http://127.0.0.1:3000");
+      assert.match(await readFile(join(dir, "bins", "droid-d-patched"), "utf8"), /127\.0\.0\.1/);
+      assert.doesNotMatch(await readFile(join(dir, "bins", "droid-c-patched"), "utf8"), /127/);
+
+      assert.equal(run(["clone", "droid-c", "droid-b"]), 2);
+      assert.equal(run(["rename", "droid-b", "droid-b"]), 2);
+      assert.equal(run(["rename", "missing", "droid-e"]), 3);
+    } finally {
+      await rm(home, { recursive: true, force: true });
+    }
+  },
+);
+
+void test(
+  "rename and clone follow the binary the alias links to, whatever its file name",
+  { skip: process.platform === "win32" },
+  async () => {
+    const home = await mkdtemp(join(tmpdir(), "droid-patch-exe-"));
+    try {
+      const droidPath = join(home, "droid");
+      await writeFile(droidPath, FAKE_DROID);
+      await chmod(droidPath, 0o755);
+
+      const env = {
+        ...process.env,
+        HOME: home,
+        PATH: `${join(home, ".local", "bin")}${delimiter}${process.env.PATH}`,
+      };
+      const run = (args) =>
+        spawnSync(process.execPath, [CLI, ...args], { env, encoding: "utf8" }).status;
+      const bins = join(home, ".droid-patch", "bins");
+      const readMeta = async (alias) =>
+        JSON.parse(await readFile(join(home, ".droid-patch", "meta", `${alias}.json`), "utf8"));
+
+      assert.equal(run(["--is-custom", "-p", droidPath, "droid-x"]), 0);
+      // As on Windows after a locked-file fallback: the alias runs a timestamped .exe
+      const { aliasPath } = await readMeta("droid-x");
+      await rename(join(bins, "droid-x-patched"), join(bins, "droid-x-patched-1700000000.exe"));
+      await rm(aliasPath);
+      await symlink(join(bins, "droid-x-patched-1700000000.exe"), aliasPath);
+
+      assert.equal(run(["clone", "droid-x", "droid-z"]), 0);
+      const cloneTarget = await readlink((await readMeta("droid-z")).aliasPath);
+      assert.equal(cloneTarget, join(bins, "droid-z-patched-1700000000.exe"));
+
+      assert.equal(run(["rename", "droid-x", "droid-y"]), 0);
+      const target = await readlink((await readMeta("droid-y")).aliasPath);
+      assert.equal(target, join(bins, "droid-y-patched-1700000000.exe"));
+      assert.match(await readFile(target, "utf8"), /isCustom:!1/);
+      assert.equal(existsSync(join(bins, "droid-x-patched-1700000000.exe")), false);
+    } finally {
+      await rm(home, { recursive: true, force: true });
+    }
+  },
+);
+
+void test(
+  "wrapper-only aliases do not need the droid binary to exist",
+  { skip: process.platform === "win32" },
+  async () => {
+    const home = await mkdtemp(join(tmpdir(), "droid-patch-nobinary-"));
+    try {
+      const env = {
+        ...process.env,
+        HOME: home,
+        PATH: `${join(home, ".local", "bin")}${delimiter}${process.env.PATH}`,
+      };
+      const result = spawnSync(
+        process.execPath,
+        [CLI, "--websearch", "-p", join(home, "missing"), "searching"],
+        { env, encoding: "utf8" },
+      );
+      assert.equal(result.status, 0, result.stdout + result.stderr);
+      const meta = JSON.parse(
+        await readFile(join(home, ".droid-patch", "meta", "searching.json"), "utf8"),
+      );
+      assert.equal(meta.patches.websearch, true);
+      assert.equal(meta.inputSha256, undefined);
+    } finally {
+      await rm(home, { recursive: true, force: true });
+    }
+  },
+);
+
+void test(
+  "doctor, update and rollback check patched binaries against their recorded SHA-256",
+  { skip: process.platform === "win32" },
+  async () => {
+    const home = await mkdtemp(join(tmpdir(), "droid-patch-sha-"));
+    try {
+      const droidPath = join(home, "droid");
+      await writeFile(droidPath, FAKE_DROID);
+      await chmod(droidPath, 0o755);
+
+      const env = {
+        ...process.env,
+        HOME: home,
+        PATH: `${join(home, ".local", "bin")}${delimiter}${process.env.PATH}`,
+      };
+      const run = (args) =>
+        spawnSync(process.execPath, [CLI, ...args, "--json"], { env, encoding: "utf8" });
+      const binaryCheck = () =>
+        JSON.parse(run(["doctor", "-p", droidPath]).stdout).checks.find(
+          (c) => c.name === "alias binaries",
+        );
+      const binaryPath = join(home, ".droid-patch", "bins", "droid-sha-patched");
+
+      assert.equal(run(["--is-custom", "-p", droidPath, "droid-sha"]).status, 0);
+      assert.equal(binaryCheck().status, "pass");
+
+      // Truncated in place, which also truncates the stored copy it is linked to
+      await writeFile(binaryPath, "#!/bin/sh\n");
+      const check = binaryCheck();
+      assert.equal(check.status, "fail");
+      assert.match(check.details[0], /^droid-sha: /);
+
+      const update = run(["update", "droid-sha", "-p", droidPath]);
+      assert.equal(update.status, 0, update.stdout);
+      assert.match(JSON.parse(update.stdout).aliases[0].warning, /SHA-256/);
+      assert.equal(binaryCheck().status, "pass");
+      assert.match(await readFile(binaryPath, "utf8"), /isCustom:!1/);
+
+      // The generation saved by that update holds the truncated binary
+      assert.equal(run(["rollback", "droid-sha"]).status, 1);
+      assert.match(await readFile(binaryPath, "utf8"), /isCustom:!1/);
+      assert.equal(run(["rollback", "droid-sha", "--force"]).status, 0);
+      assert.equal(await readFile(binaryPath, "utf8"), "#!/bin/sh\n");
+    } finally {
+      await rm(home, { recursive: true, force: true });
+    }
+  },
+);
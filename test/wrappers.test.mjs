@@ -1,6 +1,13 @@
 import assert from "node:assert/strict";
 import test from "node:test";
-import { readFile } from "node:fs/promises";
+import { spawn, spawnSync } from "node:child_process";
+import { chmod, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import { tmpdir } from "node:os";
+import { delimiter, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const CLI = fileURLToPath(new URL("../dist/cli.mjs", import.meta.url));
 
 void test("websearch wrapper includes passthrough logic", async () => {
   const src = await readFile(new URL("../src/websearch-patch.ts", import.meta.url), "utf8");
@@ -14,3 +21,87 @@ void test("dist bundle contains passthrough logic (published output)", async ()
   assert.doesNotMatch(dist, /--statusline/);
   assert.doesNotMatch(dist, /--sessions/);
 });
+
+void test(
+  "standalone proxies answer non-LLM Factory APIs locally and forward only LLM calls",
+  { skip: process.platform === "win32" },
+  async () => {
+    const home = await mkdtemp(join(tmpdir(), "droid-patch-standalone-"));
+    // Stands in for Factory: records every request that reaches it
+    const upstreamPaths = [];
+    const upstream = createServer((req, res) => {
+      upstreamPaths.push(req.url);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ upstream: true }));
+    });
+    await new Promise((resolve) => upstream.listen(0, "127.0.0.1", resolve));
+    const upstreamUrl = `http://127.0.0.1:${upstream.address().port}`;
+    const proxies = [];
+    try {
+      const droidPath = join(home, "droid");
+      await writeFile(droidPath, '#!/bin/sh\necho "droid 0.50.0"\n');
+      await chmod(droidPath, 0o755);
+      const env = {
+        ...process.env,
+        HOME: home,
+        PATH: `${join(home, ".local", "bin")}${delimiter}${process.env.PATH}`,
+      };
+
+      for (const flag of ["--websearch", "--websearch-proxy"]) {
+        upstreamPaths.length = 0;
+        const alias = `droid${flag.slice(1)}`;
+        const created = spawnSync(
+          process.execPath,
+          [CLI, flag, "--standalone", "-p", droidPath, alias],
+          { env, encoding: "utf8" },
+        );
+        assert.equal(created.status, 0, created.stdout);
+
+        // Point the generated proxy at the recording server instead of api.factory.ai
+        const script = join(home, ".droid-patch", "proxy", `${alias}-proxy.js`);
+        const code = await readFile(script, "utf8");
+        assert.match(code, /const FACTORY_API = 'https:\/\/api\.factory\.ai';/, flag);
+        await writeFile(script, code.replace("https://api.factory.ai", upstreamUrl));
+
+        const proxy = spawn(process.execPath, [script], {
+          env: { ...env, STANDALONE_MODE: "1", SEARCH_PROXY_PORT: "0" },
+          stdio: ["ignore", "pipe", "inherit"],
+        });
+        proxies.push(proxy);
+        const port = Number(
+          await new Promise((resolve, reject) => {
+            let output = "";
+            proxy.stdout.on("data", (chunk) => {
+              output += chunk;
+              const match = /PORT=(\d+)/.exec(output);
+              if (match) resolve(match[1]);
+            });
+            proxy.on("exit", (code) => reject(new Error(`${flag} proxy exited with ${code}`)));
+          }),
+        );
+        const request = (path) =>
+          fetch(`http://127.0.0.1:${port}${path}`, { method: "POST", body: "{}" });
+
+        const session = await request("/api/sessions/create");
+        assert.equal(session.status, 200, flag);
+        assert.match((await session.json()).id, /^local-/, flag);
+        const whoami = await request("/api/cli/whoami");
+        assert.equal(whoami.status, 401, flag);
+        await whoami.body?.cancel();
+        const other = await request("/api/organization/settings?x=1");
+        assert.equal(other.status, 200, flag);
+        assert.deepEqual(await other.json(), {}, flag);
+        assert.deepEqual(upstreamPaths, [], flag);
+
+        // LLM calls still go through
+        const llm = await request("/api/llm/a/v1/messages");
+        assert.deepEqual(await llm.json(), { upstream: true }, flag);
+        assert.deepEqual(upstreamPaths, ["/api/llm/a/v1/messages"], flag);
+      }
+    } finally {
+      for (const proxy of proxies) proxy.kill();
+      upstream.close();
+      await rm(home, { recursive: true, force: true });
+    }
+  },
+);